@@ -163,7 +163,7 @@ CREATE TABLE users_signup (
     PRIMARY KEY (id)
 );
 
-ALTER TABLE transaction ADD COLUMN order integer;
+ALTER TABLE transaction ADD COLUMN "order" integer;
 -- Create the function that will handle the logic
 CREATE OR REPLACE FUNCTION set_order_for_transaction()
 RETURNS TRIGGER AS $$
@@ -0,0 +1,17 @@
+ALTER TABLE transaction_item
+ADD COLUMN status VARCHAR(50) NOT NULL DEFAULT 'Diproses',
+ADD COLUMN ready_at TIMESTAMP NULL,
+ADD COLUMN picked_up_at TIMESTAMP NULL;
+
+-- Items inherit the progress of their transaction
+UPDATE transaction_item ti
+SET status = 'Siap Diambil', ready_at = t.ready_to_pick_up_at
+FROM transaction t
+WHERE t.id = ti.transaction_id AND t.status = 'Siap Diambil';
+
+UPDATE transaction_item ti
+SET status = 'Diambil', ready_at = t.ready_to_pick_up_at, picked_up_at = COALESCE(t.completed_at, t.ready_to_pick_up_at)
+FROM transaction t
+WHERE t.id = ti.transaction_id AND t.status = 'Selesai';
+
+CREATE INDEX idx_transaction_item_transaction_id ON transaction_item (transaction_id);
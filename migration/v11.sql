@@ -0,0 +1,15 @@
+CREATE TABLE transaction_item_garment (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transaction_item_id UUID NOT NULL REFERENCES transaction_item(id) ON DELETE CASCADE,
+    transaction_id UUID NOT NULL REFERENCES transaction(id) ON DELETE CASCADE,
+    merchant_id UUID,
+    tag_code VARCHAR(12) NOT NULL UNIQUE,      -- kode pendek yang dicetak di label
+    type VARCHAR(100) NOT NULL,                -- jenis pakaian, mis. kemeja, celana
+    color VARCHAR(50),
+    brand VARCHAR(100),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_transaction_item_garment_transaction_id ON transaction_item_garment (transaction_id);
+CREATE INDEX idx_transaction_item_garment_item_id ON transaction_item_garment (transaction_item_id);
@@ -0,0 +1,13 @@
+ALTER TABLE service_duration
+ADD COLUMN min_qty DOUBLE PRECISION NULL,
+ADD COLUMN min_charge DOUBLE PRECISION NULL,
+ADD COLUMN price_tiers JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Pricing applied when the item was taken in, kept so later price changes do not alter invoices
+ALTER TABLE transaction_item
+ADD COLUMN billed_qty DOUBLE PRECISION NULL,
+ADD COLUMN total_price DOUBLE PRECISION NULL,
+ADD COLUMN applied_tier JSONB NULL;
+
+UPDATE transaction_item
+SET billed_qty = qty, total_price = COALESCE(price, 0) * COALESCE(qty, 0);
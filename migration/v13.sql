@@ -0,0 +1,33 @@
+CREATE TABLE addons (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    merchant_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    pricing_type VARCHAR(20) NOT NULL CHECK (pricing_type IN ('fixed', 'per_unit')),
+    price NUMERIC(14) NOT NULL,
+    description TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_addons_merchant_id ON addons (merchant_id);
+
+-- Add-ons are copied onto the item so later catalog changes do not alter invoices
+CREATE TABLE transaction_item_addon (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transaction_item_id UUID NOT NULL REFERENCES transaction_item(id) ON DELETE CASCADE,
+    transaction_id UUID NOT NULL REFERENCES transaction(id) ON DELETE CASCADE,
+    addon_id UUID REFERENCES addons(id) ON DELETE SET NULL,
+    name VARCHAR(255) NOT NULL,
+    pricing_type VARCHAR(20) NOT NULL,
+    price NUMERIC(14,2) NOT NULL,
+    qty DOUBLE PRECISION NOT NULL,
+    total_price NUMERIC(14,2) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_transaction_item_addon_item_id ON transaction_item_addon (transaction_item_id);
+CREATE INDEX idx_transaction_item_addon_transaction_id ON transaction_item_addon (transaction_id);
+
+ALTER TABLE transaction_item
+ADD COLUMN addon_total NUMERIC(14,2) NOT NULL DEFAULT 0;
@@ -0,0 +1,17 @@
+CREATE TABLE merchant_settings (
+    merchant_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+    tax_inclusive BOOLEAN NOT NULL DEFAULT false,
+    service_charge_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Rates are copied onto the transaction so later setting changes do not alter issued invoices
+ALTER TABLE transaction
+ADD COLUMN tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN tax_inclusive BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN tax_base NUMERIC(14,2) NOT NULL DEFAULT 0,
+ADD COLUMN tax_amount NUMERIC(14,2) NOT NULL DEFAULT 0,
+ADD COLUMN service_charge_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN service_charge_amount NUMERIC(14,2) NOT NULL DEFAULT 0;
@@ -0,0 +1,20 @@
+ALTER TABLE transaction
+ADD COLUMN deleted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN delete_reason TEXT;
+
+CREATE INDEX idx_transaction_deleted_at ON transaction (merchant_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE TABLE transaction_trash_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transaction_id UUID NOT NULL REFERENCES transaction(id) ON DELETE CASCADE,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('delete', 'restore')),
+    reason TEXT,
+    performed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_transaction_trash_log_transaction_id ON transaction_trash_log (transaction_id, created_at);
+
+-- Days a deleted transaction stays in the trash before it is purged
+ALTER TABLE merchant_settings
+ADD COLUMN trash_retention_days INTEGER NOT NULL DEFAULT 30;
@@ -0,0 +1,18 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Keep in sync with normalizePhoneNumber in src/utils
+CREATE OR REPLACE FUNCTION normalize_phone(phone TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN digits LIKE '62%' THEN '0' || substring(digits FROM 3)
+    ELSE digits
+  END
+  FROM (SELECT regexp_replace(COALESCE(phone, ''), '[^0-9]', '', 'g') AS digits) d;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX idx_payment_invoice_id_prefix ON payment (UPPER(invoice_id) text_pattern_ops);
+-- Joins the matched transactions back to their payment
+CREATE INDEX idx_payment_transaction_id ON payment (transaction_id);
+CREATE INDEX idx_transaction_phone_trgm ON transaction USING gin (normalize_phone(customer_phone_number) gin_trgm_ops);
+CREATE INDEX idx_transaction_customer_name_trgm ON transaction USING gin (customer_name gin_trgm_ops);
+CREATE INDEX idx_transaction_note_fts ON transaction USING gin (to_tsvector('simple', COALESCE(note, '')));
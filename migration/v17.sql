@@ -0,0 +1,20 @@
+ALTER TABLE merchant_settings
+ADD COLUMN pickup_reminder_days INTEGER[] NOT NULL DEFAULT '{3,7,14}',
+ADD COLUMN storage_fee_per_day NUMERIC(14) NOT NULL DEFAULT 0,
+ADD COLUMN storage_fee_grace_days INTEGER NOT NULL DEFAULT 7;
+
+ALTER TABLE transaction
+ADD COLUMN storage_fee_days INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN storage_fee_amount NUMERIC(14,2) NOT NULL DEFAULT 0;
+
+-- One row per reminder sent, so each scheduled day is emailed only once
+CREATE TABLE transaction_pickup_reminder (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transaction_id UUID NOT NULL REFERENCES transaction(id) ON DELETE CASCADE,
+    reminder_day INTEGER NOT NULL,
+    email VARCHAR(255) NOT NULL,
+    sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (transaction_id, reminder_day)
+);
+
+CREATE INDEX idx_transaction_ready_to_pick_up ON transaction (status, ready_to_pick_up_at) WHERE deleted_at IS NULL;
@@ -0,0 +1,24 @@
+-- Pickup and delivery (antar-jemput) details of a transaction
+CREATE TABLE transaction_delivery (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transaction_id UUID NOT NULL UNIQUE REFERENCES transaction(id) ON DELETE CASCADE,
+    address TEXT NOT NULL,
+    address_note TEXT,
+    pickup_window_start TIMESTAMP WITH TIME ZONE,
+    pickup_window_end TIMESTAMP WITH TIME ZONE,
+    pickup_route_order INTEGER,
+    dropoff_window_start TIMESTAMP WITH TIME ZONE,
+    dropoff_window_end TIMESTAMP WITH TIME ZONE,
+    dropoff_route_order INTEGER,
+    courier_name VARCHAR(100),
+    courier_phone_number VARCHAR(20),
+    fee NUMERIC(14,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (pickup_window_start IS NOT NULL OR dropoff_window_start IS NOT NULL),
+    CHECK (pickup_window_end IS NULL OR pickup_window_end >= pickup_window_start),
+    CHECK (dropoff_window_end IS NULL OR dropoff_window_end >= dropoff_window_start)
+);
+
+CREATE INDEX idx_transaction_delivery_pickup_window ON transaction_delivery (pickup_window_start);
+CREATE INDEX idx_transaction_delivery_dropoff_window ON transaction_delivery (dropoff_window_start);
@@ -0,0 +1,14 @@
+-- Operating calendar used to calculate estimated completion dates
+ALTER TABLE merchant_settings
+ADD COLUMN timezone VARCHAR(32) NOT NULL DEFAULT 'Asia/Jakarta',
+ADD COLUMN operating_hours JSONB,
+ADD COLUMN same_day_cutoff TIME;
+
+CREATE TABLE merchant_holiday (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    merchant_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (merchant_id, date)
+);
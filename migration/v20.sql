@@ -0,0 +1,6 @@
+-- Daily processing capacity per service unit, e.g. {"KG": 120, "PCS": 40}
+ALTER TABLE merchant_settings
+ADD COLUMN daily_capacity JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN capacity_enforcement VARCHAR(10) NOT NULL DEFAULT 'warn' CHECK (capacity_enforcement IN ('warn', 'reject'));
+
+CREATE INDEX idx_transaction_item_estimated_date ON transaction_item (estimated_date);
@@ -0,0 +1,58 @@
+-- Invoice numbering per merchant. A NULL prefix keeps the original INV-{order}{DDMMYYYY}{sequence} format.
+ALTER TABLE merchant_settings
+ADD COLUMN invoice_prefix VARCHAR(10),
+ADD COLUMN invoice_date_pattern VARCHAR(10),
+ADD COLUMN invoice_padding INTEGER NOT NULL DEFAULT 4 CHECK (invoice_padding BETWEEN 1 AND 10),
+ADD COLUMN invoice_reset VARCHAR(10) NOT NULL DEFAULT 'never' CHECK (invoice_reset IN ('never', 'yearly', 'monthly'));
+
+-- Last invoice number issued per merchant and reset period ('' when numbering never resets)
+CREATE TABLE invoice_counter (
+    merchant_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    period VARCHAR(7) NOT NULL,
+    last_value INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (merchant_id, period)
+);
+
+-- Merchants that were hardcoded to the INV-{sequence}.{0000} format
+INSERT INTO merchant_settings (merchant_id, invoice_prefix, invoice_date_pattern, invoice_padding, invoice_reset)
+SELECT id, 'INV', NULL, 4, 'never'
+FROM users
+WHERE id IN (
+    '9d659c1f-c68f-4f69-9e21-fbcf37432bab',
+    'a6765f71-360a-48c1-9d79-7481067cfe19',
+    '60ac5377-6e91-4f67-a6ef-5edd4ef0d688'
+)
+ON CONFLICT (merchant_id) DO UPDATE
+SET invoice_prefix = EXCLUDED.invoice_prefix,
+    invoice_date_pattern = EXCLUDED.invoice_date_pattern,
+    invoice_padding = EXCLUDED.invoice_padding,
+    invoice_reset = EXCLUDED.invoice_reset;
+
+-- Continue their numbering where the transaction order left off
+INSERT INTO invoice_counter (merchant_id, period, last_value)
+SELECT merchant_id, '', COALESCE(MAX("order"), 0)
+FROM transaction
+WHERE merchant_id IN (
+    '9d659c1f-c68f-4f69-9e21-fbcf37432bab',
+    'a6765f71-360a-48c1-9d79-7481067cfe19',
+    '60ac5377-6e91-4f67-a6ef-5edd4ef0d688'
+)
+GROUP BY merchant_id;
+
+-- Invoice numbers are unique per merchant; the original format can repeat across merchants.
+-- Duplicate orders gave some older invoices the number of an earlier one. Those numbers are
+-- already printed and shared, so the later copies keep them and are left out of the index
+ALTER TABLE payment ADD COLUMN invoice_id_duplicate BOOLEAN NOT NULL DEFAULT false;
+
+WITH duplicates AS (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY merchant_id, invoice_id ORDER BY created_at, id) AS occurrence
+    FROM payment
+    WHERE invoice_id IS NOT NULL
+)
+UPDATE payment p
+SET invoice_id_duplicate = true
+FROM duplicates d
+WHERE p.id = d.id AND d.occurrence > 1;
+
+CREATE UNIQUE INDEX payment_merchant_invoice_id_key ON payment (merchant_id, invoice_id)
+WHERE NOT invoice_id_duplicate;
@@ -0,0 +1,60 @@
+-- Per-merchant order counter. The previous trigger counted rows, so concurrent
+-- inserts got the same order and hard-deleted rows made numbers repeat.
+CREATE TABLE merchant_order_counter (
+    merchant_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    last_order INTEGER NOT NULL DEFAULT 0
+);
+
+-- Keep the first transaction of every order number and renumber the duplicates
+-- (and transactions without a number) after the merchant's highest order
+WITH ranked AS (
+    SELECT
+        id,
+        merchant_id,
+        "order",
+        created_at,
+        ROW_NUMBER() OVER (PARTITION BY merchant_id, "order" ORDER BY created_at, id) AS occurrence
+    FROM transaction
+),
+renumbered AS (
+    SELECT
+        r.id,
+        COALESCE(r.max_order, 0) + ROW_NUMBER() OVER (PARTITION BY r.merchant_id ORDER BY r.created_at, r.id) AS new_order
+    FROM (
+        SELECT ranked.*, MAX("order") OVER (PARTITION BY merchant_id) AS max_order
+        FROM ranked
+    ) r
+    WHERE r."order" IS NULL OR r.occurrence > 1
+)
+UPDATE transaction t
+SET "order" = renumbered.new_order
+FROM renumbered
+WHERE t.id = renumbered.id;
+
+INSERT INTO merchant_order_counter (merchant_id, last_order)
+SELECT merchant_id, MAX("order")
+FROM transaction
+WHERE merchant_id IS NOT NULL
+GROUP BY merchant_id
+ON CONFLICT (merchant_id) DO UPDATE SET last_order = EXCLUDED.last_order;
+
+-- The counter row is locked until the inserting transaction ends, so concurrent
+-- inserts for one merchant wait for each other instead of reading the same count
+CREATE OR REPLACE FUNCTION set_order_for_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.merchant_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO merchant_order_counter (merchant_id, last_order)
+  VALUES (NEW.merchant_id, 1)
+  ON CONFLICT (merchant_id) DO UPDATE SET last_order = merchant_order_counter.last_order + 1
+  RETURNING last_order INTO NEW."order";
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE transaction
+ADD CONSTRAINT transaction_merchant_order_key UNIQUE (merchant_id, "order");
@@ -0,0 +1,71 @@
+-- Change tracking for the offline app's sync feed
+ALTER TABLE customer ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+ALTER TABLE service ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+ALTER TABLE duration ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE INDEX idx_customer_merchant_updated_at ON customer (merchant_id, updated_at);
+CREATE INDEX idx_service_merchant_updated_at ON service (merchant_id, updated_at);
+CREATE INDEX idx_duration_merchant_updated_at ON duration (merchant_id, updated_at);
+CREATE INDEX idx_discounts_merchant_updated_at ON discounts (merchant_id, updated_at);
+
+CREATE OR REPLACE FUNCTION touch_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_customer_touch_updated_at BEFORE UPDATE ON customer
+FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+CREATE TRIGGER trg_service_touch_updated_at BEFORE UPDATE ON service
+FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+CREATE TRIGGER trg_duration_touch_updated_at BEFORE UPDATE ON duration
+FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+CREATE TRIGGER trg_discounts_touch_updated_at BEFORE UPDATE ON discounts
+FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+-- Prices live on service_duration, so a price change counts as a change of its service
+CREATE OR REPLACE FUNCTION touch_service_of_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE service SET updated_at = now()
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.service ELSE NEW.service END;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_service_duration_touch_service
+AFTER INSERT OR UPDATE OR DELETE ON service_duration
+FOR EACH ROW EXECUTE FUNCTION touch_service_of_price();
+
+-- Deleted records, so devices can drop them from their local copy
+CREATE TABLE sync_deletion (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    merchant_id UUID NOT NULL,
+    entity VARCHAR(20) NOT NULL,
+    entity_id UUID NOT NULL,
+    deleted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sync_deletion_merchant_deleted_at ON sync_deletion (merchant_id, deleted_at);
+
+CREATE OR REPLACE FUNCTION record_sync_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.merchant_id IS NOT NULL THEN
+    INSERT INTO sync_deletion (merchant_id, entity, entity_id)
+    VALUES (OLD.merchant_id, TG_ARGV[0], OLD.id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_customer_sync_deletion AFTER DELETE ON customer
+FOR EACH ROW EXECUTE FUNCTION record_sync_deletion('customer');
+CREATE TRIGGER trg_service_sync_deletion AFTER DELETE ON service
+FOR EACH ROW EXECUTE FUNCTION record_sync_deletion('service');
+CREATE TRIGGER trg_duration_sync_deletion AFTER DELETE ON duration
+FOR EACH ROW EXECUTE FUNCTION record_sync_deletion('duration');
+CREATE TRIGGER trg_discounts_sync_deletion AFTER DELETE ON discounts
+FOR EACH ROW EXECUTE FUNCTION record_sync_deletion('discount');
@@ -0,0 +1,18 @@
+-- Condition photos taken at intake and at pickup, kept as evidence in damage disputes
+ALTER TABLE merchant_settings
+ADD COLUMN photo_retention_days INTEGER NOT NULL DEFAULT 180;
+
+CREATE TABLE transaction_photo (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transaction_id UUID NOT NULL REFERENCES transaction(id) ON DELETE CASCADE,
+    garment_id UUID REFERENCES transaction_item_garment(id) ON DELETE SET NULL,
+    merchant_id UUID,
+    stage VARCHAR(10) NOT NULL CHECK (stage IN ('intake', 'pickup')),
+    storage_path TEXT NOT NULL,                -- path of the file in the condition_photos bucket
+    url TEXT NOT NULL,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_transaction_photo_transaction_id ON transaction_photo (transaction_id);
+CREATE INDEX idx_transaction_photo_created_at ON transaction_photo (created_at);
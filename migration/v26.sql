@@ -0,0 +1,32 @@
+-- Customer claims for damaged or lost pieces
+CREATE TABLE claim (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transaction_id UUID NOT NULL REFERENCES transaction(id) ON DELETE CASCADE,
+    garment_id UUID REFERENCES transaction_item_garment(id) ON DELETE SET NULL,
+    merchant_id UUID NOT NULL,
+    type VARCHAR(10) NOT NULL CHECK (type IN ('damaged', 'lost')),
+    description TEXT NOT NULL,
+    status VARCHAR(15) NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'investigating', 'compensated', 'rejected')),
+    compensation_amount NUMERIC(14,2) NOT NULL DEFAULT 0,
+    resolution_note TEXT,
+    -- Expense recorded for the compensation, so it shows up in the finance report
+    expense_id BIGINT REFERENCES expenses(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_claim_merchant_status ON claim (merchant_id, status, created_at);
+CREATE INDEX idx_claim_transaction_id ON claim (transaction_id);
+
+-- Evidence photos of a claim, stored in the condition_photos bucket
+CREATE TABLE claim_photo (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    claim_id UUID NOT NULL REFERENCES claim(id) ON DELETE CASCADE,
+    storage_path TEXT NOT NULL,
+    url TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_claim_photo_claim_id ON claim_photo (claim_id);
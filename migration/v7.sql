@@ -0,0 +1,26 @@
+CREATE TABLE transaction_status_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transaction_id UUID NOT NULL REFERENCES transaction(id) ON DELETE CASCADE,
+    old_status VARCHAR(50),
+    new_status VARCHAR(50) NOT NULL,
+    note TEXT,
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_transaction_status_log_transaction_id ON transaction_status_log (transaction_id, created_at);
+
+-- Seed the timeline of existing transactions from the timestamps we already have
+INSERT INTO transaction_status_log (transaction_id, old_status, new_status, changed_by, created_at)
+SELECT id, NULL, 'Diproses', merchant_id, created_at
+FROM transaction;
+
+INSERT INTO transaction_status_log (transaction_id, old_status, new_status, changed_by, created_at)
+SELECT id, 'Diproses', 'Siap Diambil', merchant_id, ready_to_pick_up_at
+FROM transaction
+WHERE ready_to_pick_up_at IS NOT NULL;
+
+INSERT INTO transaction_status_log (transaction_id, old_status, new_status, changed_by, created_at)
+SELECT id, CASE WHEN ready_to_pick_up_at IS NOT NULL THEN 'Siap Diambil' ELSE 'Diproses' END, 'Selesai', merchant_id, completed_at
+FROM transaction
+WHERE completed_at IS NOT NULL;
@@ -0,0 +1,12 @@
+CREATE TABLE payment_adjustment (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    payment_id UUID NOT NULL REFERENCES payment(id) ON DELETE CASCADE,
+    transaction_id UUID NOT NULL REFERENCES transaction(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('refund', 'charge')),
+    amount NUMERIC(14,2) NOT NULL CHECK (amount >= 0),
+    note TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payment_adjustment_payment_id ON payment_adjustment (payment_id);
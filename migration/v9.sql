@@ -0,0 +1,6 @@
+ALTER TABLE transaction
+ADD COLUMN cancelled_at TIMESTAMP NULL,
+ADD COLUMN cancel_reason TEXT,
+ADD COLUMN cancelled_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transaction_merchant_status ON transaction (merchant_id, status);
@@ -20,7 +20,8 @@ const corsOptions: CorsOptions = {
     callback(null, true);
   },
   methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization", "invoice-token"],
+  allowedHeaders: ["Content-Type", "Authorization", "invoice-token", "Idempotency-Key"],
+  exposedHeaders: ["Idempotent-Replayed"],
   credentials: true,
 };
 
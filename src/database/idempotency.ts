@@ -0,0 +1,105 @@
+// src/database/idempotency.ts
+import { getClient } from './unitOfWork';
+
+// How long a stored response is replayed for a retried request
+const IDEMPOTENCY_KEY_TTL_HOURS = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS || 24);
+
+export interface IdempotentRequest {
+  merchantId: string;
+  key: string;
+  method: string;
+  path: string;
+  hash: string;
+}
+
+export type IdempotencyClaim =
+  | { state: 'claimed' }
+  | { state: 'processing' }
+  | { state: 'mismatch' }
+  | { state: 'completed'; status: number; body: unknown };
+
+/**
+ * Reserve an idempotency key for a request, or report what happened to an earlier
+ * request with the same key. Runs inside the unit of work of the request: the key is
+ * locked until that unit ends, and the reserved row only exists once it commits, so a
+ * request that fails or dies half-way leaves no trace. Expired keys of the merchant are
+ * removed first, so a key can be reused once its retention window has passed.
+ * @param request - The merchant, key and fingerprint of the request.
+ * @returns {Promise<IdempotencyClaim>} - `claimed` when this request should be processed.
+ */
+export async function claimIdempotencyKey(request: IdempotentRequest): Promise<IdempotencyClaim> {
+  const client = await getClient();
+  try {
+    const { rows: locks } = await client.query(
+      `SELECT pg_try_advisory_xact_lock(hashtext($1), hashtext($2)) AS locked`,
+      [request.merchantId, request.key]
+    );
+    if (!locks[0].locked) {
+      return { state: 'processing' };
+    }
+
+    // Rows without a response were left by requests that never finished under the old scheme
+    await client.query(
+      `
+      DELETE FROM idempotency_key
+      WHERE merchant_id = $1 AND (expires_at < NOW() OR (key = $2 AND response_status IS NULL))
+      `,
+      [request.merchantId, request.key]
+    );
+
+    const { rows } = await client.query(
+      `
+      SELECT request_method, request_path, request_hash, response_status, response_body
+      FROM idempotency_key
+      WHERE merchant_id = $1 AND key = $2
+      `,
+      [request.merchantId, request.key]
+    );
+    const existing = rows[0];
+    if (!existing) {
+      await client.query(
+        `
+        INSERT INTO idempotency_key (merchant_id, key, request_method, request_path, request_hash, expires_at)
+        VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(hours => $6))
+        `,
+        [request.merchantId, request.key, request.method, request.path, request.hash, IDEMPOTENCY_KEY_TTL_HOURS]
+      );
+      return { state: 'claimed' };
+    }
+    if (
+      existing.request_method !== request.method ||
+      existing.request_path !== request.path ||
+      existing.request_hash !== request.hash
+    ) {
+      return { state: 'mismatch' };
+    }
+    return { state: 'completed', status: existing.response_status, body: existing.response_body };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Store the response of a processed request under its idempotency key, in the same
+ * unit of work as the changes the request made.
+ */
+export async function completeIdempotencyKey(
+  merchantId: string,
+  key: string,
+  status: number,
+  body: unknown
+): Promise<void> {
+  const client = await getClient();
+  try {
+    await client.query(
+      `
+      UPDATE idempotency_key
+      SET response_status = $3, response_body = $4, completed_at = NOW()
+      WHERE merchant_id = $1 AND key = $2
+      `,
+      [merchantId, key, status, JSON.stringify(body ?? null)]
+    );
+  } finally {
+    client.release();
+  }
+}
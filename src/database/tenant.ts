@@ -0,0 +1,59 @@
+// src/database/tenant.ts
+import { getClient } from './unitOfWork';
+
+/**
+ * Merchant-owned resources that can be addressed by an ID in a URL, with the
+ * query that tells whether a record belongs to a merchant ($1 = ID, $2 = merchant ID).
+ * Transactions in the trash are left out until they are restored.
+ */
+const OWNERSHIP_QUERIES = {
+  customer: `SELECT 1 FROM customer WHERE id = $1 AND merchant_id = $2`,
+  service: `SELECT 1 FROM service WHERE id = $1 AND merchant_id = $2`,
+  duration: `SELECT 1 FROM duration WHERE id = $1 AND merchant_id = $2`,
+  printer: `SELECT 1 FROM printed_devices WHERE id = $1 AND user_id = $2`,
+  transaction: `SELECT 1 FROM transaction WHERE id = $1 AND merchant_id = $2 AND deleted_at IS NULL`,
+  holiday: `SELECT 1 FROM merchant_holiday WHERE id = $1 AND merchant_id = $2`,
+  claim: `SELECT 1 FROM claim WHERE id = $1 AND merchant_id = $2`,
+  invoice: `
+    SELECT 1
+    FROM payment p
+    JOIN transaction t ON t.id = p.transaction_id
+    WHERE p.invoice_id = $1 AND t.merchant_id = $2 AND t.deleted_at IS NULL
+  `,
+} as const;
+
+export type TenantResource = keyof typeof OWNERSHIP_QUERIES;
+
+// Resources addressed by invoice number instead of a UUID
+const TEXT_ID_RESOURCES: TenantResource[] = ['invoice'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check whether a record belongs to the given merchant.
+ * Malformed IDs and missing merchants are treated as not owned.
+ * @param resource - The kind of record.
+ * @param id - The ID (or invoice number) of the record.
+ * @param merchantId - The ID of the merchant making the request.
+ * @returns {Promise<boolean>} - True if the record exists and belongs to the merchant.
+ */
+export async function isOwnedByMerchant(
+  resource: TenantResource,
+  id: string | undefined,
+  merchantId: string | undefined
+): Promise<boolean> {
+  if (!id || !merchantId || !UUID_PATTERN.test(merchantId)) {
+    return false;
+  }
+  if (!TEXT_ID_RESOURCES.includes(resource) && !UUID_PATTERN.test(id)) {
+    return false;
+  }
+
+  const client = await getClient();
+  try {
+    const { rowCount } = await client.query(OWNERSHIP_QUERIES[resource], [id, merchantId]);
+    return (rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
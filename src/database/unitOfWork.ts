@@ -0,0 +1,57 @@
+// src/database/unitOfWork.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import { PoolClient } from 'pg';
+import pool from './postgres';
+
+const activeClient = new AsyncLocalStorage<PoolClient>();
+
+/**
+ * Run `work` inside a single database transaction.
+ * Every controller that obtains its connection through `getClient` while `work`
+ * is running shares the same connection, so all of their writes are committed
+ * together or rolled back together. Nested calls join the outer unit of work.
+ * @param work - The operations to run atomically.
+ * @returns The value returned by `work`.
+ */
+export async function withUnitOfWork<T>(work: () => Promise<T>): Promise<T> {
+  if (activeClient.getStore()) {
+    return work();
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await activeClient.run(client, work);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch((rollbackError) => {
+      console.error('Error rolling back unit of work:', rollbackError);
+    });
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get a connection for a controller query.
+ * Inside `withUnitOfWork` this is the shared transaction connection, and calling
+ * `release()` on it is a no-op; otherwise it is a fresh connection from the pool.
+ */
+export async function getClient(): Promise<PoolClient> {
+  const client = activeClient.getStore();
+  if (!client) {
+    return pool.connect();
+  }
+
+  return new Proxy(client, {
+    get(target, property) {
+      if (property === 'release') {
+        return () => undefined;
+      }
+      const value = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Check whether a request carries the token of the scheduled jobs in its
+ * cron-job-token header. Without a configured crToken no request does.
+ */
+export const hasCronToken = (req: Request): boolean => {
+  const expected = process.env.crToken;
+  return Boolean(expected) && req.headers['cron-job-token'] === expected;
+};
+
+/**
+ * Only let scheduled jobs through; everything else answers 403.
+ */
+export const requireCronToken = (req: Request, res: Response, next: NextFunction) => {
+  if (hasCronToken(req)) {
+    return next();
+  }
+  return res.status(403).json({ message: 'Forbidden: Invalid token' });
+};
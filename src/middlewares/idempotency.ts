@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '.';
+import { claimIdempotencyKey, completeIdempotencyKey } from '../database/idempotency';
+import { withUnitOfWork } from '../database/unitOfWork';
+
+const MAX_KEY_LENGTH = 255;
+
+// Rolls back the unit of work of a route that answered with an error
+class RouteFailedError extends Error {}
+
+// A response the route wrote, held back until its unit of work is settled
+interface HeldResponse {
+  status: number;
+  body: unknown;
+  send: () => void;
+}
+
+/**
+ * Catch the response of the route instead of sending it, whichever of res.json,
+ * res.send or res.end it uses. Resolves once the route answers.
+ */
+function holdResponse(res: Response): Promise<HeldResponse> {
+  const { json, send, end } = res;
+  return new Promise((resolve) => {
+    const hold = (write: (...args: any[]) => unknown, args: any[]) => {
+      res.json = json;
+      res.send = send;
+      res.end = end;
+      const body = args[0];
+      resolve({
+        status: res.statusCode,
+        body: typeof body === 'string' || (typeof body === 'object' && !Buffer.isBuffer(body)) ? body : null,
+        send: () => write.apply(res, args),
+      });
+      return res;
+    };
+    res.json = (...args: any[]) => hold(json, args);
+    res.send = (...args: any[]) => hold(send, args);
+    res.end = ((...args: any[]) => hold(end, args)) as Response['end'];
+  });
+}
+
+/**
+ * Make a route safe to retry. When the request carries an `Idempotency-Key` header,
+ * the first successful response is stored and returned again for every retry with the
+ * same key and body, instead of running the route a second time.
+ * The route runs in one unit of work with the key, and its response is only sent after
+ * that unit commits: the stored response and the changes it reports are saved together.
+ * Error responses roll the unit back and are not stored, so the request can be retried
+ * with the same key. Requests without the header are handled as usual.
+ */
+export const idempotent = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const key = req.header('Idempotency-Key');
+  if (!key || !req.userId) {
+    return next();
+  }
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ message: `Idempotency-Key maksimal ${MAX_KEY_LENGTH} karakter` });
+  }
+
+  const merchantId = req.userId;
+  let held: HeldResponse | undefined;
+  try {
+    const claim = await withUnitOfWork(async () => {
+      const claim = await claimIdempotencyKey({
+        merchantId,
+        key,
+        method: req.method,
+        path: req.baseUrl + req.path,
+        hash: createHash('sha256').update(JSON.stringify(req.body ?? {})).digest('hex'),
+      });
+      if (claim.state !== 'claimed') {
+        return claim;
+      }
+
+      const response = holdResponse(res);
+      next();
+      held = await response;
+      if (held.status >= 400) {
+        throw new RouteFailedError();
+      }
+      await completeIdempotencyKey(merchantId, key, held.status, held.body);
+      return claim;
+    });
+
+    if (claim.state === 'mismatch') {
+      return res.status(422).json({ message: 'Idempotency-Key sudah dipakai untuk permintaan lain' });
+    }
+    if (claim.state === 'processing') {
+      return res.status(409).json({ message: 'Permintaan dengan Idempotency-Key ini sedang diproses' });
+    }
+    if (claim.state === 'completed') {
+      res.setHeader('Idempotent-Replayed', 'true');
+      if (typeof claim.body === 'string') {
+        return res.status(claim.status).send(claim.body);
+      }
+      return res.status(claim.status).json(claim.body);
+    }
+    held?.send();
+  } catch (error) {
+    if (error instanceof RouteFailedError && held) {
+      return held.send();
+    }
+    console.error('Error saving idempotency key:', error);
+    res.status(500).json({ message: 'Terjadi kesalahan server' });
+  }
+};
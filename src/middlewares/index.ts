@@ -3,6 +3,7 @@ import { get } from 'http';
 import jwt from 'jsonwebtoken';
 import { getCustomerById } from '../modules/customer/controller';
 import { getUserDetails } from '../modules/user/controller';
+import { hasCronToken } from './cron';
 
 export interface AuthenticatedRequest extends Request {
   userId?: string;
@@ -12,7 +13,6 @@ const authMiddleware = async (req: AuthenticatedRequest, res: Response, next: Ne
   const skipAuthRoutes = [
     '/auth',
     '/docs',
-    '/transaction/:id',
     '/user/delete/:id',
     '/auth/signup/token',
     '/user/verify-invoice',
@@ -25,7 +25,12 @@ const authMiddleware = async (req: AuthenticatedRequest, res: Response, next: Ne
   const cronJobRoutes = [
     '/user/delete-temp-files',
     '/user/check-subscriptions',
-    '/user/save-offline-user'
+    '/user/save-offline-user',
+    '/transaction/purge-trash',
+    '/transaction/storage-fees',
+    '/transaction/photo-cleanup',
+    '/notification/overdue-digest',
+    '/notification/pickup-reminders',
   ];
   
   if (
@@ -45,11 +50,9 @@ const authMiddleware = async (req: AuthenticatedRequest, res: Response, next: Ne
   }
   
   const token = req.cookies.auth_token || req.headers['authorization'] || req.query.authorization;
-  const crToken = req.headers['cron-job-token'];
-  const crPrivateToken = process.env.crToken;
 
   if (cronJobRoutes.some(route => req.path.startsWith(route))) {
-    if (crToken === crPrivateToken) {
+    if (hasCronToken(req)) {
       return next();
     } else {
       return res.status(401).json({ message: 'Akses ditolak. Token tidak sesuai' });
@@ -0,0 +1,23 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '.';
+import { isOwnedByMerchant, TenantResource } from '../database/tenant';
+
+/**
+ * Only let the request through when the record named by `req.params[param]`
+ * belongs to the signed-in merchant. Records of other merchants answer 404,
+ * exactly like records that do not exist.
+ * @param resource - The kind of record the route parameter refers to.
+ * @param param - The name of the route parameter holding the ID.
+ */
+export const scopeToMerchant = (resource: TenantResource, param: string = 'id') =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (await isOwnedByMerchant(resource, req.params[param], req.userId)) {
+        return next();
+      }
+      return res.status(404).json({ message: 'Data tidak ditemukan' });
+    } catch (error) {
+      console.error('Error checking record ownership:', error);
+      return res.status(500).json({ message: 'Terjadi kesalahan server' });
+    }
+  };
@@ -0,0 +1,168 @@
+import { getClient } from "../../database/unitOfWork";
+import { Addon } from "./types";
+
+const ADDON_COLUMNS = `id, merchant_id, name, pricing_type, price::double precision AS price, COALESCE(description, '') AS description, is_active, created_at, updated_at`;
+
+export async function listAddons(
+  merchant_id: string,
+  page: number = 1,
+  limit: number = 10,
+  filter: string | null = null
+): Promise<{ data: Addon[]; totalCount: number }> {
+  const client = await getClient();
+  try {
+    const offset = (page - 1) * limit;
+
+    const query = `
+      SELECT ${ADDON_COLUMNS}
+      FROM addons
+      WHERE merchant_id = $1
+        AND ($2::text IS NULL OR name ILIKE '%' || $2 || '%')
+      ORDER BY created_at DESC
+      LIMIT $3 OFFSET $4
+    `;
+    const countQuery = `
+      SELECT COUNT(*) AS total_count
+      FROM addons
+      WHERE merchant_id = $1
+        AND ($2::text IS NULL OR name ILIKE '%' || $2 || '%')
+    `;
+
+    const [result, countResult] = await Promise.all([
+      client.query(query, [merchant_id, filter, limit, offset]),
+      client.query(countQuery, [merchant_id, filter]),
+    ]);
+
+    return {
+      data: result.rows,
+      totalCount: Number(countResult.rows?.[0]?.total_count || 0),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+export async function getAddonById(
+  id: string,
+  merchant_id: string
+): Promise<Addon | null> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `SELECT ${ADDON_COLUMNS} FROM addons WHERE id = $1 AND merchant_id = $2`,
+      [id, merchant_id]
+    );
+    return rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Retrieve the active add-ons of a merchant among the given IDs.
+ * IDs that are unknown, inactive or owned by another merchant are left out.
+ */
+export async function getActiveAddonsByIds(
+  ids: string[],
+  merchant_id: string
+): Promise<Addon[]> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `SELECT ${ADDON_COLUMNS}
+       FROM addons
+       WHERE id = ANY($1::uuid[]) AND merchant_id = $2 AND is_active = true`,
+      [ids, merchant_id]
+    );
+    return rows;
+  } finally {
+    client.release();
+  }
+}
+
+export async function createAddon(
+  payload: Omit<Addon, "id" | "created_at" | "updated_at">,
+  merchant_id: string
+): Promise<Addon> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `INSERT INTO addons (merchant_id, name, pricing_type, price, description, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${ADDON_COLUMNS}`,
+      [
+        merchant_id,
+        payload.name,
+        payload.pricing_type,
+        payload.price,
+        payload.description ?? null,
+        payload.is_active ?? true,
+      ]
+    );
+    return rows[0];
+  } finally {
+    client.release();
+  }
+}
+
+export async function updateAddon(
+  id: string,
+  merchant_id: string,
+  payload: Partial<Omit<Addon, "id" | "merchant_id" | "created_at" | "updated_at">>
+): Promise<Addon | null> {
+  const client = await getClient();
+  try {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let idx = 1;
+
+    if (payload.name !== undefined) { fields.push(`name = $${idx++}`); values.push(payload.name); }
+    if (payload.pricing_type !== undefined) { fields.push(`pricing_type = $${idx++}`); values.push(payload.pricing_type); }
+    if (payload.price !== undefined) { fields.push(`price = $${idx++}`); values.push(payload.price); }
+    if (payload.description !== undefined) { fields.push(`description = $${idx++}`); values.push(payload.description); }
+    if (payload.is_active !== undefined) { fields.push(`is_active = $${idx++}`); values.push(payload.is_active); }
+
+    if (fields.length === 0) return getAddonById(id, merchant_id);
+
+    fields.push(`updated_at = NOW()`);
+    values.push(id, merchant_id);
+
+    const { rows } = await client.query(
+      `UPDATE addons SET ${fields.join(", ")}
+       WHERE id = $${idx++} AND merchant_id = $${idx++}
+       RETURNING ${ADDON_COLUMNS}`,
+      values
+    );
+    return rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
+
+export async function deleteAddon(
+  id: string,
+  merchant_id: string
+): Promise<boolean> {
+  const client = await getClient();
+  try {
+    const { rowCount } = await client.query(
+      `DELETE FROM addons WHERE id = $1 AND merchant_id = $2`,
+      [id, merchant_id]
+    );
+    return (rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Calculate the quantity and price of an add-on attached to an item.
+ * Per-unit add-ons follow the item quantity, fixed add-ons are charged once.
+ */
+export function calculateAddonPrice(
+  addon: Pick<Addon, "pricing_type" | "price">,
+  itemQty: number
+): { qty: number; total_price: number } {
+  const qty = addon.pricing_type === "per_unit" ? Number(itemQty) || 0 : 1;
+  return { qty, total_price: Number(addon.price) * qty };
+}
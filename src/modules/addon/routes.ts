@@ -0,0 +1,116 @@
+import express from "express";
+import { AuthenticatedRequest } from "../../middlewares";
+import { formatJoiError } from "../../utils";
+import {
+  createAddon,
+  deleteAddon,
+  getAddonById,
+  listAddons,
+  updateAddon,
+} from "./controller";
+import { addonSchema, addonUpdateSchema } from "./types";
+
+const router = express.Router();
+
+// GET /addons
+router.get("/", async (req: AuthenticatedRequest, res) => {
+  const filter = (req.query.filter as string) || null;
+  const page = parseInt((req.query.page as string) || "1", 10);
+  const limit = parseInt((req.query.limit as string) || "100", 10);
+
+  if (isNaN(page) || page < 1 || isNaN(limit) || limit < 1) {
+    return res.status(400).json({ message: "Invalid page or limit values" });
+  }
+
+  try {
+    const { data, totalCount } = await listAddons(
+      req.userId as string,
+      page,
+      limit,
+      filter
+    );
+    const isFirstPage = page === 1;
+    const isLastPage = page * limit >= totalCount;
+
+    res.status(200).json({
+      addons: data,
+      totalCount,
+      isFirstPage,
+      isLastPage,
+    });
+  } catch (error) {
+    console.error("Error listing addons:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// GET /addons/:id
+router.get("/:id", async (req: AuthenticatedRequest, res) => {
+  try {
+    const addon = await getAddonById(req.params.id, req.userId as string);
+    if (!addon) {
+      return res.status(404).json({ message: "Add-on tidak ditemukan." });
+    }
+
+    res.status(200).json(addon);
+  } catch (error) {
+    console.error("Error getting addon:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// POST /addons
+router.post("/", async (req: AuthenticatedRequest, res) => {
+  const { error, value } = addonSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({ message: formatJoiError(error) });
+  }
+
+  try {
+    await createAddon(value, req.userId as string);
+    res.status(201).json({
+      status: "success",
+      message: "Add-on berhasil dibuat",
+    });
+  } catch (err) {
+    console.error("Error creating addon:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// PUT /addons/:id
+router.put("/:id", async (req: AuthenticatedRequest, res) => {
+  const { error, value } = addonUpdateSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({ message: formatJoiError(error) });
+  }
+
+  try {
+    const addon = await updateAddon(req.params.id, req.userId as string, value);
+    if (!addon) {
+      return res.status(404).json({ message: "Add-on tidak ditemukan." });
+    }
+
+    res.status(200).json({ message: "Add-on berhasil diperbarui." });
+  } catch (err) {
+    console.error("Error updating addon:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// DELETE /addons/:id
+router.delete("/:id", async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await deleteAddon(req.params.id, req.userId as string);
+    if (!deleted) {
+      return res.status(404).json({ message: "Add-on tidak ditemukan." });
+    }
+
+    res.status(200).json({ message: "Add-on berhasil dihapus." });
+  } catch (err) {
+    console.error("Error deleting addon:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+export default router;
@@ -0,0 +1,31 @@
+const Joi = require("joi");
+
+export type AddonPricingType = "fixed" | "per_unit";
+
+export interface Addon {
+  id: string;
+  merchant_id: string;
+  name: string;
+  pricing_type: AddonPricingType;
+  price: number;
+  description?: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export const addonSchema = Joi.object({
+  name: Joi.string().required(),
+  pricing_type: Joi.string().valid("fixed", "per_unit").required(),
+  price: Joi.number().min(0).required(),
+  description: Joi.string().allow("", null).optional(),
+  is_active: Joi.boolean().optional(),
+});
+
+export const addonUpdateSchema = Joi.object({
+  name: Joi.string().optional(),
+  pricing_type: Joi.string().valid("fixed", "per_unit").optional(),
+  price: Joi.number().min(0).optional(),
+  description: Joi.string().allow("", null).optional(),
+  is_active: Joi.boolean().optional(),
+});
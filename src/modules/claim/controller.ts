@@ -0,0 +1,290 @@
+import { getClient, withUnitOfWork } from "../../database/unitOfWork";
+import { getMerchantSettings } from "../settings/controller";
+import { removePhotoFiles, uploadPhotoFiles } from "../transaction/controller";
+import {
+  Claim,
+  ClaimInput,
+  ClaimPhoto,
+  ClaimQuery,
+  ClaimStatusInput,
+  CLOSED_CLAIM_STATUSES,
+} from "./types";
+
+// Expense category compensations are booked under in the finance report
+const COMPENSATION_EXPENSE = "Kompensasi Klaim";
+
+const CLAIM_COLUMNS = `
+  c.id,
+  c.transaction_id,
+  p.invoice_id AS invoice,
+  t.customer_name,
+  c.garment_id,
+  g.tag_code AS garment_tag_code,
+  c.type,
+  c.description,
+  c.status,
+  c.compensation_amount::double precision AS compensation_amount,
+  c.resolution_note,
+  c.expense_id::int AS expense_id,
+  c.resolved_at,
+  c.created_at,
+  c.updated_at
+`;
+
+const CLAIM_JOINS = `
+  JOIN transaction t ON t.id = c.transaction_id
+  JOIN payment p ON p.transaction_id = c.transaction_id
+  LEFT JOIN transaction_item_garment g ON g.id = c.garment_id
+`;
+
+/**
+ * Retrieve the claims of a merchant, newest first.
+ * @param merchantId - The ID of the merchant.
+ * @param query - The optional status filter and the page to return.
+ * @returns {Promise<{ claims: Claim[], totalCount: number }>} - The claims on the page, without their photos, and the total count.
+ */
+export async function getClaims(
+  merchantId: string,
+  query: ClaimQuery
+): Promise<{ claims: Omit<Claim, "photos">[]; totalCount: number }> {
+  const client = await getClient();
+  try {
+    const offset = (query.page - 1) * query.limit;
+    const [result, countResult] = await Promise.all([
+      client.query(
+        `
+        SELECT ${CLAIM_COLUMNS}
+        FROM claim c
+        ${CLAIM_JOINS}
+        WHERE c.merchant_id = $1 AND ($2::text IS NULL OR c.status = $2)
+        ORDER BY c.created_at DESC
+        LIMIT $3 OFFSET $4
+        `,
+        [merchantId, query.status || null, query.limit, offset]
+      ),
+      client.query(
+        `SELECT COUNT(*) AS total_count FROM claim WHERE merchant_id = $1 AND ($2::text IS NULL OR status = $2)`,
+        [merchantId, query.status || null]
+      ),
+    ]);
+
+    return {
+      claims: result.rows,
+      totalCount: Number(countResult.rows[0]?.total_count || 0),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Retrieve a claim with its evidence photos.
+ * @param id - The ID of the claim.
+ * @returns {Promise<Claim | null>} - The claim, or null if not found.
+ */
+export async function getClaimById(id: string): Promise<Claim | null> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      SELECT
+        ${CLAIM_COLUMNS},
+        (
+          SELECT COALESCE(
+            json_agg(json_build_object('id', cp.id, 'url', cp.url, 'created_at', cp.created_at) ORDER BY cp.created_at),
+            '[]'::json
+          )
+          FROM claim_photo cp
+          WHERE cp.claim_id = c.id
+        ) AS photos
+      FROM claim c
+      ${CLAIM_JOINS}
+      WHERE c.id = $1
+      `,
+      [id]
+    );
+    return rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Open a claim for a damaged or lost piece of a transaction.
+ * @param claim - The claim details, with the invoice ID of the transaction.
+ * @param merchantId - The ID of the merchant owning the transaction.
+ * @returns {Promise<Claim | null>} - The new claim, or null if the transaction is not found.
+ */
+export async function createClaim(claim: ClaimInput, merchantId: string): Promise<Claim | null> {
+  const id = await withUnitOfWork(async () => {
+    const client = await getClient();
+    try {
+      const { rows } = await client.query(
+        `
+        SELECT t.id
+        FROM transaction t
+        JOIN payment p ON p.transaction_id = t.id
+        WHERE p.invoice_id = $1 AND t.merchant_id = $2 AND t.deleted_at IS NULL
+        `,
+        [claim.invoice_id, merchantId]
+      );
+      if (rows.length === 0) {
+        return null;
+      }
+      const transactionId = rows[0].id;
+
+      if (claim.garment_id) {
+        const { rowCount } = await client.query(
+          `SELECT 1 FROM transaction_item_garment WHERE id = $1 AND transaction_id = $2`,
+          [claim.garment_id, transactionId]
+        );
+        if (!rowCount) {
+          throw new Error("Pakaian tidak ditemukan pada transaksi ini");
+        }
+      }
+
+      const inserted = await client.query(
+        `
+        INSERT INTO claim (transaction_id, garment_id, merchant_id, type, description)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING id
+        `,
+        [transactionId, claim.garment_id || null, merchantId, claim.type, claim.description]
+      );
+      return inserted.rows[0].id as string;
+    } finally {
+      client.release();
+    }
+  });
+
+  return id ? getClaimById(id) : null;
+}
+
+/**
+ * Move a claim to a new status. Compensating a claim books the compensation as an
+ * expense on the merchant's local date, so it is counted by the finance report.
+ * Compensated and rejected claims are closed and cannot change anymore.
+ * @param id - The ID of the claim.
+ * @param input - The new status, compensation amount and resolution note.
+ * @param merchantId - The ID of the merchant owning the claim.
+ * @returns {Promise<Claim | null>} - The updated claim, or null if not found.
+ */
+export async function updateClaimStatus(
+  id: string,
+  input: ClaimStatusInput,
+  merchantId: string
+): Promise<Claim | null> {
+  const settings = await getMerchantSettings(merchantId);
+
+  const updated = await withUnitOfWork(async () => {
+    const client = await getClient();
+    try {
+      const { rows } = await client.query(
+        `SELECT status FROM claim WHERE id = $1 AND merchant_id = $2 FOR UPDATE`,
+        [id, merchantId]
+      );
+      if (rows.length === 0) {
+        return false;
+      }
+      if (CLOSED_CLAIM_STATUSES.includes(rows[0].status)) {
+        throw new Error("Klaim sudah ditutup dan tidak dapat diubah");
+      }
+
+      let expenseId: number | null = null;
+      if (input.status === "compensated") {
+        const expense = await client.query(
+          `
+          INSERT INTO expenses (merchant_id, total, description, date)
+          VALUES ($1, $2, $3, (NOW() AT TIME ZONE $4)::date)
+          RETURNING id
+          `,
+          [merchantId, input.compensation_amount, COMPENSATION_EXPENSE, settings.timezone]
+        );
+        expenseId = Number(expense.rows[0].id);
+      }
+
+      await client.query(
+        `
+        UPDATE claim
+        SET status = $2,
+            compensation_amount = CASE WHEN $2 = 'rejected' THEN 0 ELSE COALESCE($3, compensation_amount) END,
+            resolution_note = COALESCE($4, resolution_note),
+            expense_id = $5,
+            resolved_at = CASE WHEN $2 = ANY($6::text[]) THEN NOW() ELSE NULL END,
+            updated_at = NOW()
+        WHERE id = $1
+        `,
+        [
+          id,
+          input.status,
+          input.compensation_amount ?? null,
+          input.resolution_note || null,
+          expenseId,
+          CLOSED_CLAIM_STATUSES,
+        ]
+      );
+      return true;
+    } finally {
+      client.release();
+    }
+  });
+
+  return updated ? getClaimById(id) : null;
+}
+
+/**
+ * Upload evidence photos for a claim.
+ * @param id - The ID of the claim.
+ * @param files - The photos to upload.
+ * @returns {Promise<ClaimPhoto[] | null>} - The stored photos, or null if the claim is not found.
+ */
+export async function addClaimPhotos(
+  id: string,
+  files: Express.Multer.File[]
+): Promise<ClaimPhoto[] | null> {
+  const client = await getClient();
+  let claim: { merchant_id: string; transaction_id: string };
+  try {
+    const { rows } = await client.query(
+      `SELECT merchant_id, transaction_id FROM claim WHERE id = $1`,
+      [id]
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+    claim = rows[0];
+  } finally {
+    client.release();
+  }
+
+  const uploaded = await uploadPhotoFiles(
+    `${claim.merchant_id}/${claim.transaction_id}/claims/${id}`,
+    files
+  );
+  try {
+    return await withUnitOfWork(async () => {
+      const client = await getClient();
+      try {
+        const photos: ClaimPhoto[] = [];
+        for (const { path, url } of uploaded) {
+          const { rows } = await client.query(
+            `
+            INSERT INTO claim_photo (claim_id, storage_path, url)
+            VALUES ($1, $2, $3)
+            RETURNING id, url, created_at
+            `,
+            [id, path, url]
+          );
+          photos.push(rows[0]);
+        }
+        await client.query(`UPDATE claim SET updated_at = NOW() WHERE id = $1`, [id]);
+        return photos;
+      } finally {
+        client.release();
+      }
+    });
+  } catch (error) {
+    await removePhotoFiles(uploaded.map(({ path }) => path));
+    throw error;
+  }
+}
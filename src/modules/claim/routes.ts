@@ -0,0 +1,144 @@
+import express from "express";
+import multer from "multer";
+import { AuthenticatedRequest } from "../../middlewares";
+import { scopeToMerchant } from "../../middlewares/tenant";
+import { formatJoiError } from "../../utils";
+import { addClaimPhotos, createClaim, getClaimById, getClaims, updateClaimStatus } from "./controller";
+import { ClaimStatus, claimSchema, claimStatusSchema } from "./types";
+
+const router = express.Router();
+
+// Evidence photos are kept in memory until they are handed to Supabase storage
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024, files: 10 },
+});
+
+const CLAIM_STATUSES: ClaimStatus[] = ["open", "investigating", "compensated", "rejected"];
+
+// GET /claim?status=open&page=1&limit=10
+router.get("/", async (req: AuthenticatedRequest, res) => {
+  const status = req.query.status as ClaimStatus | undefined;
+  const page = parseInt((req.query.page as string) || "1", 10);
+  const limit = parseInt((req.query.limit as string) || "10", 10);
+
+  if (isNaN(page) || page < 1 || isNaN(limit) || limit < 1) {
+    return res.status(400).json({ message: "Invalid page or limit values" });
+  }
+  if (status && !CLAIM_STATUSES.includes(status)) {
+    return res.status(400).json({ message: "Status klaim tidak valid" });
+  }
+
+  try {
+    const { claims, totalCount } = await getClaims(req.userId as string, { status, page, limit });
+    res.status(200).json({
+      claims,
+      totalCount,
+      isFirstPage: page === 1,
+      isLastPage: page * limit >= totalCount,
+    });
+  } catch (error) {
+    console.error("Error listing claims:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// POST /claim
+router.post("/", async (req: AuthenticatedRequest, res) => {
+  const { error, value } = claimSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({ message: formatJoiError(error) });
+  }
+
+  try {
+    const claim = await createClaim(value, req.userId as string);
+    if (!claim) {
+      return res.status(404).json({ message: "Transaksi tidak ditemukan" });
+    }
+
+    res.status(201).json({
+      message: "Klaim berhasil dibuat.",
+      data: claim,
+    });
+  } catch (err) {
+    if (err instanceof Error && err.message.includes("Pakaian tidak ditemukan")) {
+      return res.status(400).json({ message: err.message });
+    }
+    console.error("Error creating claim:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// GET /claim/:id
+router.get("/:id", scopeToMerchant("claim"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const claim = await getClaimById(req.params.id);
+    if (!claim) {
+      return res.status(404).json({ message: "Klaim tidak ditemukan" });
+    }
+
+    res.status(200).json(claim);
+  } catch (error) {
+    console.error("Error getting claim:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// PUT /claim/:id/status
+router.put("/:id/status", scopeToMerchant("claim"), async (req: AuthenticatedRequest, res) => {
+  const { error, value } = claimStatusSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({ message: formatJoiError(error) });
+  }
+
+  try {
+    const claim = await updateClaimStatus(req.params.id, value, req.userId as string);
+    if (!claim) {
+      return res.status(404).json({ message: "Klaim tidak ditemukan" });
+    }
+
+    res.status(200).json({
+      message: "Status klaim berhasil diperbarui.",
+      data: claim,
+    });
+  } catch (err) {
+    if (err instanceof Error && err.message.includes("sudah ditutup")) {
+      return res.status(409).json({ message: err.message });
+    }
+    console.error("Error updating claim status:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// POST /claim/:id/photos
+router.post(
+  "/:id/photos",
+  scopeToMerchant("claim"),
+  upload.array("files", 10),
+  async (req: AuthenticatedRequest, res) => {
+    const files = (req.files as Express.Multer.File[]) || [];
+    if (files.length === 0) {
+      return res.status(400).json({ message: "Tidak ada file yang diunggah" });
+    }
+    if (files.some((file) => !file.mimetype.startsWith("image/"))) {
+      return res.status(400).json({ message: "File harus berupa gambar" });
+    }
+
+    try {
+      const photos = await addClaimPhotos(req.params.id, files);
+      if (!photos) {
+        return res.status(404).json({ message: "Klaim tidak ditemukan" });
+      }
+
+      res.status(201).json({
+        message: "Foto bukti berhasil diunggah.",
+        data: photos,
+      });
+    } catch (err) {
+      console.error("Error uploading claim photos:", err);
+      res.status(500).json({ message: "Gagal mengunggah foto" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,89 @@
+const Joi = require("joi");
+
+export type ClaimType = "damaged" | "lost";
+
+export type ClaimStatus = "open" | "investigating" | "compensated" | "rejected";
+
+// Statuses after which a claim can no longer change
+export const CLOSED_CLAIM_STATUSES: ClaimStatus[] = ["compensated", "rejected"];
+
+export interface ClaimPhoto {
+  id: string;
+  url: string;
+  created_at: Date;
+}
+
+export interface Claim {
+  id: string;
+  transaction_id: string;
+  invoice: string;
+  customer_name: string;
+  garment_id: string | null;
+  garment_tag_code: string | null;
+  type: ClaimType;
+  description: string;
+  status: ClaimStatus;
+  compensation_amount: number;
+  resolution_note: string | null;
+  expense_id: number | null;
+  resolved_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+  photos: ClaimPhoto[];
+}
+
+export interface ClaimInput {
+  invoice_id: string;
+  garment_id?: string | null;
+  type: ClaimType;
+  description: string;
+}
+
+export interface ClaimStatusInput {
+  status: ClaimStatus;
+  compensation_amount?: number;
+  resolution_note?: string | null;
+}
+
+export interface ClaimQuery {
+  status?: ClaimStatus;
+  page: number;
+  limit: number;
+}
+
+export const claimSchema = Joi.object({
+  invoice_id: Joi.string().required().messages({
+    'string.empty': 'Invoice wajib diisi',
+    'any.required': 'Invoice wajib diisi',
+  }),
+  garment_id: Joi.string().uuid().allow('', null).optional().messages({
+    'string.guid': 'Pakaian tidak valid',
+  }),
+  type: Joi.string().valid("damaged", "lost").required().messages({
+    'any.only': 'Jenis klaim harus damaged atau lost',
+    'any.required': 'Jenis klaim wajib diisi',
+  }),
+  description: Joi.string().trim().required().messages({
+    'string.empty': 'Deskripsi klaim wajib diisi',
+    'any.required': 'Deskripsi klaim wajib diisi',
+  }),
+});
+
+export const claimStatusSchema = Joi.object({
+  status: Joi.string().valid("open", "investigating", "compensated", "rejected").required().messages({
+    'any.only': 'Status klaim tidak valid',
+    'any.required': 'Status klaim wajib diisi',
+  }),
+  compensation_amount: Joi.number().min(0)
+    .when('status', {
+      is: 'compensated',
+      then: Joi.number().greater(0).required(),
+    })
+    .messages({
+      'number.base': 'Nilai kompensasi harus berupa angka',
+      'number.min': 'Nilai kompensasi tidak boleh kurang dari 0',
+      'number.greater': 'Nilai kompensasi harus lebih dari 0',
+      'any.required': 'Nilai kompensasi wajib diisi',
+    }),
+  resolution_note: Joi.string().allow('', null).optional(),
+});
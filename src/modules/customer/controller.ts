@@ -1,4 +1,4 @@
-import pool from "../../database/postgres";
+import { getClient } from "../../database/unitOfWork";
 import { Customer } from "./types";
 
 /**
@@ -11,7 +11,7 @@ export async function GetCustomers(
   page: number = 1,
   limit: number = 10
 ): Promise<{ customers: Customer[]; totalCount: number }> {
-  const client = await pool.connect();
+  const client = await getClient();
   try {
     const offset = (page - 1) * limit;
 
@@ -54,12 +54,16 @@ export async function GetCustomers(
 /**
  * Retrieve a customer by ID from the database.
  * @param id - The ID of the customer to retrieve.
+ * @param merchant_id - When given, only a customer of this merchant is returned.
  * @returns {Promise<Customer | null>} - A promise that resolves to the customer, or null if not found.
  */
-export async function getCustomerById(id: string): Promise<Customer | null> {
-  const client = await pool.connect();
+export async function getCustomerById(id: string, merchant_id?: string): Promise<Customer | null> {
+  const client = await getClient();
   try {
-    const res = await client.query("SELECT * FROM customer WHERE id = $1", [id]);
+    const res = await client.query(
+      "SELECT * FROM customer WHERE id = $1 AND ($2::uuid IS NULL OR merchant_id = $2)",
+      [id, merchant_id || null]
+    );
     return res.rows.length > 0 ? res.rows[0] : null;
   } finally {
     client.release();
@@ -72,7 +76,7 @@ export async function getCustomerById(id: string): Promise<Customer | null> {
  * @returns {Promise<Customer>} - A promise that resolves to the newly created customer.
  */
 export async function addCustomer(customer: Omit<Customer, 'id'>, merchant_id: string): Promise<Customer> {
-  const client = await pool.connect();
+  const client = await getClient();
   try {
     const { name, phone_number, email, address, gender } = customer;
     const query = `
@@ -94,7 +98,7 @@ export async function addCustomer(customer: Omit<Customer, 'id'>, merchant_id: s
  * @returns {Promise<Customer>} - A promise that resolves to the updated customer.
  */
 export async function updateCustomer(id: string, customer: Omit<Customer, 'id'>): Promise<Customer> {
-  const client = await pool.connect();
+  const client = await getClient();
   try {
     const { name, phone_number, email, address, gender } = customer;
     const query = `
@@ -116,7 +120,7 @@ export async function updateCustomer(id: string, customer: Omit<Customer, 'id'>)
  * @returns {Promise<boolean>} - A promise that resolves to true if the customer was deleted, or false if not found.
  */
 export async function deleteCustomer(id: string): Promise<boolean> {
-  const client = await pool.connect();
+  const client = await getClient();
   try {
     const res = await client.query("DELETE FROM customer WHERE id = $1 RETURNING *", [id]);
     return res.rows.length > 0;
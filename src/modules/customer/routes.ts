@@ -2,6 +2,7 @@ import express, { Request, Response } from "express";
 import { addCustomer, GetCustomers, updateCustomer, getCustomerById, deleteCustomer } from "./controller";
 import { customerSchema } from "./types";
 import { AuthenticatedRequest } from "../../middlewares";
+import { scopeToMerchant } from "../../middlewares/tenant";
 import { formatJoiError } from "../../utils";
 
 const router = express.Router();
@@ -67,10 +68,10 @@ router.post("/", (req: AuthenticatedRequest, res: Response) => {
     });
 });
 
-router.get("/:id", async (req: Request, res: Response) => {
+router.get("/:id", scopeToMerchant("customer"), async (req: AuthenticatedRequest, res: Response) => {
   const { id } = req.params;
   try {
-    const customer = await getCustomerById(id);
+    const customer = await getCustomerById(id, req.userId);
     if (customer) {
       res.json(customer);
     } else {
@@ -82,7 +83,7 @@ router.get("/:id", async (req: Request, res: Response) => {
   }
 });
 
-router.put("/:id", (req: Request, res: Response) => {
+router.put("/:id", scopeToMerchant("customer"), (req: Request, res: Response) => {
   const { error, value } = customerSchema.validate(req.body, { abortEarly: false });
   if (error) {
     const message = formatJoiError(error);
@@ -105,7 +106,7 @@ router.put("/:id", (req: Request, res: Response) => {
     });
 });
 
-router.delete("/:id", async (req: Request, res: Response) => {
+router.delete("/:id", scopeToMerchant("customer"), async (req: Request, res: Response) => {
   const { id } = req.params;
   try {
     const result = await deleteCustomer(id);
@@ -0,0 +1,284 @@
+import { getClient, withUnitOfWork } from "../../database/unitOfWork";
+import { addPaymentAdjustment } from "../payments/controller";
+import { recalculateTransactionTotals } from "../transaction/controller";
+import { Delivery, DeliveryInput, DeliveryRun } from "./types";
+
+const DELIVERY_COLUMNS = `
+  id,
+  transaction_id,
+  address,
+  address_note,
+  pickup_window_start,
+  pickup_window_end,
+  pickup_route_order,
+  dropoff_window_start,
+  dropoff_window_end,
+  dropoff_route_order,
+  courier_name,
+  courier_phone_number,
+  fee::double precision AS fee,
+  created_at,
+  updated_at
+`;
+
+/**
+ * Retrieve the pickup and delivery details of a transaction.
+ * @param invoiceId - The invoice ID of the transaction.
+ * @returns {Promise<Delivery | null>} - The delivery, or null if the transaction has none.
+ */
+export async function getDeliveryByInvoiceId(invoiceId: string): Promise<Delivery | null> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      SELECT ${DELIVERY_COLUMNS}
+      FROM transaction_delivery
+      WHERE transaction_id = (SELECT transaction_id FROM payment WHERE invoice_id = $1)
+      `,
+      [invoiceId]
+    );
+    return rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Create or replace the pickup and delivery details of a transaction and put the
+ * delivery fee on its invoice. Without an address the customer's address is used.
+ * When the order is already paid, a change in the amount due is recorded as an
+ * extra charge or refund.
+ * @param invoiceId - The invoice ID of the transaction.
+ * @param delivery - The delivery details.
+ * @param changedBy - The ID of the user making the change.
+ * @returns {Promise<Delivery | null>} - The saved delivery, or null if the transaction is not found.
+ */
+export async function saveDelivery(
+  invoiceId: string,
+  delivery: DeliveryInput,
+  changedBy?: string
+): Promise<Delivery | null> {
+  return withUnitOfWork(async () => {
+    const client = await getClient();
+    try {
+      const transaction = await lockTransaction(invoiceId);
+      if (!transaction) {
+        return null;
+      }
+
+      const address = delivery.address || transaction.customer_address;
+      if (!address) {
+        throw new Error("Alamat antar-jemput wajib diisi");
+      }
+
+      const { rows } = await client.query(
+        `
+        INSERT INTO transaction_delivery (
+          transaction_id, address, address_note,
+          pickup_window_start, pickup_window_end, pickup_route_order,
+          dropoff_window_start, dropoff_window_end, dropoff_route_order,
+          courier_name, courier_phone_number, fee
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        ON CONFLICT (transaction_id) DO UPDATE
+        SET address = EXCLUDED.address,
+            address_note = EXCLUDED.address_note,
+            pickup_window_start = EXCLUDED.pickup_window_start,
+            pickup_window_end = EXCLUDED.pickup_window_end,
+            pickup_route_order = EXCLUDED.pickup_route_order,
+            dropoff_window_start = EXCLUDED.dropoff_window_start,
+            dropoff_window_end = EXCLUDED.dropoff_window_end,
+            dropoff_route_order = EXCLUDED.dropoff_route_order,
+            courier_name = EXCLUDED.courier_name,
+            courier_phone_number = EXCLUDED.courier_phone_number,
+            fee = EXCLUDED.fee,
+            updated_at = NOW()
+        RETURNING ${DELIVERY_COLUMNS}
+        `,
+        [
+          transaction.id,
+          address,
+          delivery.address_note || null,
+          delivery.pickup_window_start || null,
+          delivery.pickup_window_end || null,
+          delivery.pickup_route_order || null,
+          delivery.dropoff_window_start || null,
+          delivery.dropoff_window_end || null,
+          delivery.dropoff_route_order || null,
+          delivery.courier_name || null,
+          delivery.courier_phone_number || null,
+          delivery.fee || 0,
+        ]
+      );
+
+      await settleTotalChange(transaction, "Ongkos antar-jemput diubah", changedBy);
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  });
+}
+
+/**
+ * Remove the pickup and delivery details of a transaction together with its delivery fee.
+ * @param invoiceId - The invoice ID of the transaction.
+ * @param changedBy - The ID of the user making the change.
+ * @returns {Promise<boolean>} - True if a delivery was removed.
+ */
+export async function deleteDelivery(invoiceId: string, changedBy?: string): Promise<boolean> {
+  return withUnitOfWork(async () => {
+    const client = await getClient();
+    try {
+      const transaction = await lockTransaction(invoiceId);
+      if (!transaction) {
+        return false;
+      }
+
+      const { rowCount } = await client.query(
+        `DELETE FROM transaction_delivery WHERE transaction_id = $1`,
+        [transaction.id]
+      );
+      if (!rowCount) {
+        return false;
+      }
+
+      await settleTotalChange(transaction, "Antar-jemput dibatalkan", changedBy);
+      return true;
+    } finally {
+      client.release();
+    }
+  });
+}
+
+/**
+ * Retrieve the pickup and drop-off runs of a merchant on one day, in route order.
+ * Runs without a route order follow the ordered ones by the start of their time window.
+ * @param merchantId - The ID of the merchant.
+ * @param date - The day in YYYY-MM-DD format, in Indonesian Western Time.
+ * @returns {Promise<DeliveryRun[]>} - The runs of the day.
+ */
+export async function getDeliverySchedule(
+  merchantId: string,
+  date: string
+): Promise<DeliveryRun[]> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      SELECT
+        run.delivery_id,
+        run.type,
+        p.invoice_id AS invoice,
+        t.status AS transaction_status,
+        p.status AS payment_status,
+        p.total_amount_due::double precision AS amount_due,
+        t.customer_name,
+        t.customer_phone_number,
+        td.address,
+        td.address_note,
+        run.window_start,
+        run.window_end,
+        run.route_order,
+        td.courier_name,
+        td.courier_phone_number
+      FROM (
+        SELECT id AS delivery_id, 'pickup' AS type, pickup_window_start AS window_start,
+               pickup_window_end AS window_end, pickup_route_order AS route_order
+        FROM transaction_delivery
+        WHERE pickup_window_start IS NOT NULL
+        UNION ALL
+        SELECT id AS delivery_id, 'dropoff' AS type, dropoff_window_start AS window_start,
+               dropoff_window_end AS window_end, dropoff_route_order AS route_order
+        FROM transaction_delivery
+        WHERE dropoff_window_start IS NOT NULL
+      ) run
+      JOIN transaction_delivery td ON td.id = run.delivery_id
+      JOIN transaction t ON t.id = td.transaction_id
+      JOIN payment p ON p.transaction_id = t.id
+      WHERE t.merchant_id = $1
+        AND t.deleted_at IS NULL
+        AND t.status IS DISTINCT FROM 'Dibatalkan'
+        AND (run.window_start AT TIME ZONE 'Asia/Jakarta')::date = $2::date
+      ORDER BY run.route_order ASC NULLS LAST, run.window_start ASC
+      `,
+      [merchantId, date]
+    );
+    return rows;
+  } finally {
+    client.release();
+  }
+}
+
+interface LockedTransaction {
+  id: string;
+  customer_address: string | null;
+  payment_id: string;
+  payment_status: string;
+  total_amount_due: number;
+}
+
+/**
+ * Lock a transaction and its payment for a delivery change.
+ */
+async function lockTransaction(invoiceId: string): Promise<LockedTransaction | null> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      SELECT
+        t.id,
+        t.status,
+        t.customer_address,
+        p.id AS payment_id,
+        p.status AS payment_status,
+        p.total_amount_due
+      FROM transaction t
+      JOIN payment p ON t.id = p.transaction_id
+      WHERE p.invoice_id = $1 AND t.deleted_at IS NULL
+      FOR UPDATE OF t, p
+      `,
+      [invoiceId]
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+    if (rows[0].status === "Dibatalkan") {
+      throw new Error("Transaksi sudah dibatalkan");
+    }
+    return rows[0];
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Recalculate the amount due after a delivery change and, for a paid order,
+ * record the difference as an extra charge or refund.
+ */
+async function settleTotalChange(
+  transaction: LockedTransaction,
+  note: string,
+  changedBy?: string
+): Promise<void> {
+  const client = await getClient();
+  try {
+    const { total } = await recalculateTransactionTotals(client, transaction.id);
+    if (transaction.payment_status !== "Lunas") {
+      return;
+    }
+
+    const difference = total - Number(transaction.total_amount_due || 0);
+    if (difference !== 0) {
+      await addPaymentAdjustment({
+        payment_id: transaction.payment_id,
+        transaction_id: transaction.id,
+        type: difference < 0 ? "refund" : "charge",
+        amount: Math.abs(difference),
+        note,
+        created_by: changedBy,
+      });
+    }
+  } finally {
+    client.release();
+  }
+}
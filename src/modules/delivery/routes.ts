@@ -0,0 +1,97 @@
+import express from "express";
+import { isValid, parseISO } from "date-fns";
+import { AuthenticatedRequest } from "../../middlewares";
+import { scopeToMerchant } from "../../middlewares/tenant";
+import { formatJoiError } from "../../utils";
+import {
+  deleteDelivery,
+  getDeliveryByInvoiceId,
+  getDeliverySchedule,
+  saveDelivery,
+} from "./controller";
+import { deliverySchema } from "./types";
+
+const router = express.Router();
+
+// GET /delivery/schedule?date=YYYY-MM-DD
+router.get("/schedule", async (req: AuthenticatedRequest, res) => {
+  const date = req.query.date as string | undefined;
+  if (!date) {
+    return res.status(400).json({ message: "date wajib diisi." });
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !isValid(parseISO(date))) {
+    return res.status(400).json({ message: "Format tanggal tidak valid." });
+  }
+
+  try {
+    const runs = await getDeliverySchedule(req.userId as string, date);
+    res.status(200).json({ date, runs });
+  } catch (error) {
+    console.error("Error getting delivery schedule:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// GET /delivery/:invoiceId
+router.get("/:invoiceId", scopeToMerchant("invoice", "invoiceId"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const delivery = await getDeliveryByInvoiceId(req.params.invoiceId);
+    if (!delivery) {
+      return res.status(404).json({ message: "Data antar-jemput tidak ditemukan." });
+    }
+
+    res.status(200).json(delivery);
+  } catch (error) {
+    console.error("Error getting delivery:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// PUT /delivery/:invoiceId
+router.put("/:invoiceId", scopeToMerchant("invoice", "invoiceId"), async (req: AuthenticatedRequest, res) => {
+  const { error, value } = deliverySchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({ message: formatJoiError(error) });
+  }
+
+  try {
+    const delivery = await saveDelivery(req.params.invoiceId, value, req.userId);
+    if (!delivery) {
+      return res.status(404).json({ message: "Transaksi tidak ditemukan" });
+    }
+
+    res.status(200).json({
+      message: "Antar-jemput berhasil disimpan.",
+      data: delivery,
+    });
+  } catch (err) {
+    if (err instanceof Error && err.message.includes("dibatalkan")) {
+      return res.status(409).json({ message: err.message });
+    }
+    if (err instanceof Error && err.message.includes("wajib diisi")) {
+      return res.status(400).json({ message: err.message });
+    }
+    console.error("Error saving delivery:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// DELETE /delivery/:invoiceId
+router.delete("/:invoiceId", scopeToMerchant("invoice", "invoiceId"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await deleteDelivery(req.params.invoiceId, req.userId);
+    if (!deleted) {
+      return res.status(404).json({ message: "Data antar-jemput tidak ditemukan." });
+    }
+
+    res.status(200).json({ message: "Antar-jemput berhasil dihapus." });
+  } catch (err) {
+    if (err instanceof Error && err.message.includes("dibatalkan")) {
+      return res.status(409).json({ message: err.message });
+    }
+    console.error("Error deleting delivery:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+export default router;
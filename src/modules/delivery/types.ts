@@ -0,0 +1,109 @@
+const Joi = require("joi");
+
+export type DeliveryRunType = "pickup" | "dropoff";
+
+export interface Delivery {
+  id: string;
+  transaction_id: string;
+  address: string;
+  address_note: string | null;
+  pickup_window_start: Date | null;
+  pickup_window_end: Date | null;
+  pickup_route_order: number | null;
+  dropoff_window_start: Date | null;
+  dropoff_window_end: Date | null;
+  dropoff_route_order: number | null;
+  courier_name: string | null;
+  courier_phone_number: string | null;
+  fee: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DeliveryInput {
+  address?: string;
+  address_note?: string | null;
+  pickup_window_start?: Date | null;
+  pickup_window_end?: Date | null;
+  pickup_route_order?: number | null;
+  dropoff_window_start?: Date | null;
+  dropoff_window_end?: Date | null;
+  dropoff_route_order?: number | null;
+  courier_name?: string | null;
+  courier_phone_number?: string | null;
+  fee?: number;
+}
+
+// One stop of a courier: collecting dirty laundry or bringing clean laundry back
+export interface DeliveryRun {
+  delivery_id: string;
+  type: DeliveryRunType;
+  invoice: string;
+  transaction_status: string;
+  payment_status: string;
+  amount_due: number;
+  customer_name: string;
+  customer_phone_number: string;
+  address: string;
+  address_note: string | null;
+  window_start: Date;
+  window_end: Date | null;
+  route_order: number | null;
+  courier_name: string | null;
+  courier_phone_number: string | null;
+}
+
+const windowMessages = {
+  'date.base': 'Waktu harus berupa tanggal yang valid',
+  'date.min': 'Akhir jendela waktu tidak boleh sebelum awalnya',
+};
+
+const routeOrderMessages = {
+  'number.base': 'Urutan rute harus berupa angka',
+  'number.integer': 'Urutan rute harus berupa bilangan bulat',
+  'number.min': 'Urutan rute minimal 1',
+};
+
+export const deliverySchema = Joi.object({
+  address: Joi.string().trim().allow("").optional().messages({
+    'string.base': 'Alamat harus berupa teks',
+  }),
+  address_note: Joi.string().allow("", null).optional(),
+  pickup_window_start: Joi.date().iso().allow(null).optional().messages(windowMessages),
+  pickup_window_end: Joi.date().iso().allow(null).optional()
+    .when('pickup_window_start', {
+      is: Joi.date().required(),
+      then: Joi.date().min(Joi.ref('pickup_window_start')),
+      otherwise: Joi.valid(null),
+    })
+    .messages({ ...windowMessages, 'any.only': 'Awal jendela jemput wajib diisi' }),
+  pickup_route_order: Joi.number().integer().min(1).allow(null).optional().messages(routeOrderMessages),
+  dropoff_window_start: Joi.date().iso().allow(null).optional().messages(windowMessages),
+  dropoff_window_end: Joi.date().iso().allow(null).optional()
+    .when('dropoff_window_start', {
+      is: Joi.date().required(),
+      then: Joi.date().min(Joi.ref('dropoff_window_start')),
+      otherwise: Joi.valid(null),
+    })
+    .messages({ ...windowMessages, 'any.only': 'Awal jendela antar wajib diisi' }),
+  dropoff_route_order: Joi.number().integer().min(1).allow(null).optional().messages(routeOrderMessages),
+  courier_name: Joi.string().max(100).allow("", null).optional().messages({
+    'string.max': 'Nama kurir maksimal 100 karakter',
+  }),
+  courier_phone_number: Joi.string().max(20).allow("", null).optional().messages({
+    'string.max': 'Nomor telepon kurir maksimal 20 karakter',
+  }),
+  fee: Joi.number().min(0).default(0).messages({
+    'number.base': 'Ongkos antar-jemput harus berupa angka',
+    'number.min': 'Ongkos antar-jemput tidak boleh kurang dari 0',
+  }),
+})
+  .custom((value: DeliveryInput, helpers: any) => {
+    if (!value.pickup_window_start && !value.dropoff_window_start) {
+      return helpers.error('object.missing');
+    }
+    return value;
+  })
+  .messages({
+    'object.missing': 'Jendela waktu jemput atau antar wajib diisi',
+  });
@@ -1,4 +1,4 @@
-import pool from "../../database/postgres";
+import { getClient } from "../../database/unitOfWork";
 import { Discount } from "./types";
 
 export async function listDiscounts(
@@ -7,7 +7,7 @@ export async function listDiscounts(
   limit: number = 10,
   filter: string | null = null
 ): Promise<{ data: Discount[]; totalCount: number }> {
-  const client = await pool.connect();
+  const client = await getClient();
   try {
     const offset = (page - 1) * limit;
 
@@ -44,7 +44,7 @@ export async function getDiscountById(
   id: string,
   merchant_id: string
 ): Promise<Discount | null> {
-  const client = await pool.connect();
+  const client = await getClient();
   try {
     const { rows } = await client.query(
       `SELECT id, merchant_id, name, type, value::double precision AS value, COALESCE(description, '') AS description, is_active, created_at, updated_at
@@ -57,25 +57,11 @@ export async function getDiscountById(
   }
 }
 
-export async function getDiscountByIdOnly(id: string): Promise<Discount | null> {
-  const client = await pool.connect();
-  try {
-    const { rows } = await client.query(
-      `SELECT id, merchant_id, name, type, value::double precision AS value, COALESCE(description, '') AS description, is_active, created_at, updated_at
-       FROM discounts WHERE id = $1`,
-      [id]
-    );
-    return rows[0] || null;
-  } finally {
-    client.release();
-  }
-}
-
 export async function createDiscount(
   payload: Omit<Discount, "id" | "created_at" | "updated_at">,
   merchant_id: string
 ): Promise<Discount> {
-  const client = await pool.connect();
+  const client = await getClient();
   try {
     const { rows } = await client.query(
       `INSERT INTO discounts (merchant_id, name, type, value, description, is_active)
@@ -101,7 +87,7 @@ export async function updateDiscount(
   merchant_id: string,
   payload: Partial<Omit<Discount, "id" | "merchant_id" | "created_at" | "updated_at">>
 ): Promise<Discount | null> {
-  const client = await pool.connect();
+  const client = await getClient();
   try {
     const fields: string[] = [];
     const values: any[] = [];
@@ -134,7 +120,7 @@ export async function deleteDiscount(
   id: string,
   merchant_id: string
 ): Promise<boolean> {
-  const client = await pool.connect();
+  const client = await getClient();
   try {
     const { rowCount } = await client.query(
       `DELETE FROM discounts WHERE id = $1 AND merchant_id = $2`,
@@ -1,5 +1,8 @@
 import pool from "../../database/postgres";
+import { getClient } from "../../database/unitOfWork";
 import { Duration, DurationType } from "./types";
+import { BusinessCalendar } from "../settings/types";
+import { getBusinessCalendar, getTimezoneOffset } from "../settings/controller";
 
 
 /**
@@ -119,7 +122,7 @@ export async function getDurations(
  * @returns {Promise<Duration | null>} - A promise that resolves to the duration if found, or null if not found.
  */
 export async function getDurationById(id: string): Promise<Duration | null> {
-  const client = await pool.connect();
+  const client = await getClient();
   try {
     const res = await client.query("SELECT * FROM duration WHERE id = $1", [id]);
     return res.rows[0] || null;
@@ -194,3 +197,164 @@ export async function deleteDuration(id: string): Promise<void> {
     client.release();
   }
 }
+
+/**
+ * Preview when an order received at `from` with the given duration would be finished,
+ * using the merchant's business calendar, without saving anything.
+ * @param id - The ID of the duration.
+ * @param merchantId - The ID of the merchant.
+ * @param from - The moment the order would be received.
+ * @returns The duration and the estimated completion date, or null if the duration is not found.
+ */
+export async function previewEstimatedDate(
+  id: string,
+  merchantId: string,
+  from: Date
+): Promise<{ duration: Duration; received_at: Date; estimated_date: Date | undefined } | null> {
+  const duration = await getDurationById(id);
+  if (!duration) {
+    return null;
+  }
+
+  const calendar = await getBusinessCalendar(merchantId, from);
+  return {
+    duration,
+    received_at: from,
+    estimated_date: calculateEstimatedDate(duration, from, calendar),
+  };
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// How far ahead to look for business days before giving up on a calendar without any
+const MAX_CALENDAR_DAYS = 366;
+
+/**
+ * Calculate when an item with the given duration is expected to be finished.
+ * With a business calendar, `Jam` durations only count hours the outlet is open and
+ * `Hari` durations only count business days; orders received after the same-day
+ * cutoff, outside operating hours or on a holiday start on the next business day.
+ * @param duration - The duration chosen for the item.
+ * @param from - The moment the item was received.
+ * @param calendar - The merchant's operating hours and holidays.
+ * @returns {Date | undefined} - The estimated completion date, or undefined for an unknown duration type.
+ */
+export function calculateEstimatedDate(
+  duration: Pick<Duration, "duration" | "type"> | null,
+  from: Date,
+  calendar?: BusinessCalendar
+): Date | undefined {
+  if (calendar && (duration?.type === DurationType.Jam || duration?.type === DurationType.Hari)) {
+    const estimated = calculateBusinessDate(duration, from, calendar);
+    if (estimated) {
+      return estimated;
+    }
+  }
+
+  if (duration?.type === DurationType.Jam) {
+    return new Date(from.getTime() + duration.duration * 60 * 60 * 1000);
+  }
+  if (duration?.type === DurationType.Hari) {
+    return new Date(from.getTime() + duration.duration * 24 * 60 * 60 * 1000);
+  }
+  return undefined;
+}
+
+/**
+ * Walk the merchant's calendar to find the due date. Times are handled as local
+ * wall-clock milliseconds, so UTC getters on them return the merchant's local date.
+ * Returns undefined when the calendar has no business day within a year.
+ */
+function calculateBusinessDate(
+  duration: Pick<Duration, "duration" | "type">,
+  from: Date,
+  calendar: BusinessCalendar
+): Date | undefined {
+  const offset = getTimezoneOffset(calendar.timezone) * MINUTE;
+  const holidays = new Set(calendar.holidays);
+  const received = from.getTime() + offset;
+
+  const openingOf = (dayStart: number): { open: number; close: number } | null => {
+    if (holidays.has(new Date(dayStart).toISOString().slice(0, 10))) {
+      return null;
+    }
+    if (!calendar.operating_hours) {
+      return { open: dayStart, close: dayStart + DAY };
+    }
+    const hours = calendar.operating_hours[new Date(dayStart).getUTCDay()];
+    if (!hours) {
+      return null;
+    }
+    return {
+      open: dayStart + toMinutes(hours.open) * MINUTE,
+      close: dayStart + toMinutes(hours.close) * MINUTE,
+    };
+  };
+
+  // Find the moment work on the order can start
+  const receivedDay = received - (received % DAY);
+  const today = openingOf(receivedDay);
+  const cutoff = calendar.same_day_cutoff ? receivedDay + toMinutes(calendar.same_day_cutoff) * MINUTE : null;
+  let start: number | undefined;
+  if (today && received < today.close && (cutoff === null || received < cutoff)) {
+    start = Math.max(received, today.open);
+  } else {
+    for (let day = receivedDay + DAY, i = 0; i < MAX_CALENDAR_DAYS; day += DAY, i++) {
+      const hours = openingOf(day);
+      if (hours) {
+        start = hours.open;
+        break;
+      }
+    }
+  }
+  if (start === undefined) {
+    return undefined;
+  }
+
+  if (duration.type === DurationType.Jam) {
+    let remaining = duration.duration * 60 * MINUTE;
+    let cursor = start;
+    for (let i = 0; i < MAX_CALENDAR_DAYS; i++) {
+      const dayStart = cursor - (cursor % DAY);
+      const hours = openingOf(dayStart);
+      if (hours) {
+        const begin = Math.max(cursor, hours.open);
+        const available = hours.close - begin;
+        if (available > 0 && remaining <= available) {
+          return new Date(begin + remaining - offset);
+        }
+        remaining -= Math.max(available, 0);
+      }
+      cursor = dayStart + DAY;
+    }
+    return undefined;
+  }
+
+  // Hari: the same time of day, the given number of business days later
+  const timeOfDay = start % DAY;
+  let day = start - timeOfDay;
+  for (let counted = 0, i = 0; counted < duration.duration; i++) {
+    if (i >= MAX_CALENDAR_DAYS) {
+      return undefined;
+    }
+    day += DAY;
+    if (openingOf(day)) {
+      counted++;
+    }
+  }
+  const hours = openingOf(day);
+  if (!hours) {
+    return undefined;
+  }
+  const due = Math.min(Math.max(day + timeOfDay, hours.open), hours.close);
+  return new Date(due - offset);
+}
+
+/**
+ * Convert an HH:mm time to minutes after midnight.
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
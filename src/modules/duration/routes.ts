@@ -1,7 +1,8 @@
 import express from 'express';
 import { Duration, durationSchema, DurationType } from './types';
-import { getDurations, getDurationById, addDuration, updateDuration, deleteDuration, getAllDurations } from './controller';
+import { getDurations, getDurationById, addDuration, updateDuration, deleteDuration, getAllDurations, previewEstimatedDate } from './controller';
 import { AuthenticatedRequest } from '../../middlewares';
+import { scopeToMerchant } from '../../middlewares/tenant';
 import { formatJoiError } from '../../utils';
 
 const router = express.Router();
@@ -82,7 +83,7 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
   }
 });
 
-router.put('/:id', async (req, res) => {
+router.put('/:id', scopeToMerchant('duration'), async (req, res) => {
   if (!req.body || typeof req.body !== 'object') {
     return res.status(400).json({
       errors: [{
@@ -116,7 +117,7 @@ router.put('/:id', async (req, res) => {
   }
 });
 
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', scopeToMerchant('duration'), async (req, res) => {
   const durationId = req.params.id;
   try {
     await deleteDuration(durationId);
@@ -137,7 +138,7 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
-router.get('/:id', async (req, res) => {
+router.get('/:id', scopeToMerchant('duration'), async (req, res) => {
   const durationId = req.params.id;
 
   try {
@@ -155,4 +156,26 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// Preview the due date the POS will promise before the transaction is saved
+router.get('/:id/estimate', scopeToMerchant('duration'), async (req: AuthenticatedRequest, res) => {
+  const from = req.query.from ? new Date(req.query.from as string) : new Date();
+  if (isNaN(from.getTime())) {
+    return res.status(400).json({ message: 'Format tanggal tidak valid' });
+  }
+
+  try {
+    const preview = await previewEstimatedDate(req.params.id, req.userId as string, from);
+    if (!preview) {
+      return res.status(404).json({ message: 'Durasi tidak ditemukan' });
+    }
+    res.json(preview);
+  } catch (error) {
+    if (error instanceof Error) {
+      res.status(500).json({ message: error.message });
+    } else {
+      res.status(500).json({ message: 'Terjadi kesalahan server' });
+    }
+  }
+});
+
 export default router;
@@ -0,0 +1,271 @@
+import Mailjet from "node-mailjet";
+import {
+  getDuePickupReminders,
+  getMerchantsWithOverdueTransactions,
+  getOverdueTransactions,
+  recordPickupReminder,
+} from "../transaction/controller";
+import { OverdueTransaction, PickupReminderCandidate } from "../transaction/types";
+import { createTrackingLink } from "../track/controller";
+
+// Number of late orders listed in one digest; the rest is only counted
+const DIGEST_LIMIT = 50;
+
+/**
+ * Email every merchant with overdue orders a digest of those orders.
+ * @returns {Promise<number>} - The number of merchants a digest was sent to.
+ */
+export async function sendOverdueDigests(): Promise<number> {
+  const merchants = await getMerchantsWithOverdueTransactions();
+
+  let sent = 0;
+  for (const merchant of merchants) {
+    try {
+      const { transactions, totalCount } = await getOverdueTransactions(
+        merchant.merchant_id,
+        1,
+        DIGEST_LIMIT
+      );
+      if (transactions.length === 0) {
+        continue;
+      }
+
+      await sendOverdueDigestEmail(merchant.email, merchant.name, transactions, totalCount);
+      sent++;
+    } catch (error) {
+      console.error(`Error sending overdue digest to merchant ${merchant.merchant_id}:`, error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Email customers whose laundry has been ready for pickup for one of the merchant's
+ * reminder days. Each reminder is recorded so it is sent only once.
+ * @returns {Promise<number>} - The number of reminders sent.
+ */
+export async function sendPickupReminders(): Promise<number> {
+  const reminders = await getDuePickupReminders();
+
+  let sent = 0;
+  for (const reminder of reminders) {
+    try {
+      const trackingLink = await createTrackingLink(reminder.invoice_id, reminder.merchant_id);
+      await sendPickupReminderEmail(reminder, trackingLink?.url);
+      await recordPickupReminder(
+        reminder.transaction_id,
+        reminder.reminder_day,
+        reminder.customer_email
+      );
+      sent++;
+    } catch (error) {
+      console.error(`Error sending pickup reminder for transaction ${reminder.transaction_id}:`, error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Describe a delay in minutes the way a cashier would say it.
+ */
+function formatLateness(minutes: number): string {
+  const days = Math.floor(minutes / (60 * 24));
+  const hours = Math.floor((minutes % (60 * 24)) / 60);
+  const remainingMinutes = minutes % 60;
+
+  if (days > 0) {
+    return hours > 0 ? `${days} hari ${hours} jam` : `${days} hari`;
+  }
+  if (hours > 0) {
+    return remainingMinutes > 0 ? `${hours} jam ${remainingMinutes} menit` : `${hours} jam`;
+  }
+  return `${remainingMinutes} menit`;
+}
+
+const sendOverdueDigestEmail = async (
+  email: string,
+  merchantName: string,
+  transactions: OverdueTransaction[],
+  totalCount: number
+): Promise<void> => {
+  const mailjet = Mailjet.apiConnect(
+    process.env.MAILJET_API_KEY as string,
+    process.env.MAILJET_API_SECRET as string,
+    { options: { timeout: 20000 } }
+  );
+
+  const options: Intl.DateTimeFormatOptions = {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "Asia/Jakarta",
+  };
+  const rows = transactions
+    .map(
+      (transaction) => `
+                        <tr>
+                          <td style="padding: 8px; border-bottom: 1px solid #eeeeee;">${transaction.invoice}</td>
+                          <td style="padding: 8px; border-bottom: 1px solid #eeeeee;">${transaction.customer || "-"}</td>
+                          <td style="padding: 8px; border-bottom: 1px solid #eeeeee;">${new Intl.DateTimeFormat("id-ID", options).format(new Date(transaction.estimated_date))}</td>
+                          <td style="padding: 8px; border-bottom: 1px solid #eeeeee; color: #d93025;">${formatLateness(Number(transaction.minutes_late))}</td>
+                        </tr>`
+    )
+    .join("");
+  const remaining = totalCount - transactions.length;
+
+  const emailSubject = `${totalCount} Pesanan Terlambat di ${merchantName}`;
+  const emailBody = `
+      <html>
+        <body style="font-family: Arial, sans-serif; background-color: #f4f4f4; margin: 0; padding: 0;">
+          <table align="center" width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background-color: #f4f4f4; padding: 40px 0;">
+            <tr>
+              <td>
+                <table align="center" width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background-color: #ffffff; padding: 20px; border-radius: 10px; box-shadow: 0 0 10px rgba(0, 0, 0, 0.1);">
+                  <tr>
+                    <td style="text-align: center;">
+                      <img src="https://sbuysfjktbupqjyoujht.supabase.co/storage/v1/object/public/logos/logo.png" alt="Cucibayargo" style="width: 150px; margin-bottom: 20px;" />
+                    </td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 20px;">
+                      <h1 style="color: #333333; text-align: center;">Pesanan Terlambat</h1>
+                      <p style="font-size: 16px; color: #555555;">
+                        Pesanan berikut masih diproses dan sudah melewati perkiraan selesai:
+                      </p>
+                      <table width="100%" cellpadding="0" cellspacing="0" style="font-size: 14px; color: #333333;">
+                        <tr>
+                          <th align="left" style="padding: 8px; border-bottom: 2px solid #dddddd;">Invoice</th>
+                          <th align="left" style="padding: 8px; border-bottom: 2px solid #dddddd;">Pelanggan</th>
+                          <th align="left" style="padding: 8px; border-bottom: 2px solid #dddddd;">Perkiraan Selesai</th>
+                          <th align="left" style="padding: 8px; border-bottom: 2px solid #dddddd;">Terlambat</th>
+                        </tr>${rows}
+                      </table>
+                      ${remaining > 0 ? `<p style="font-size: 14px; color: #555555;">Dan ${remaining} pesanan terlambat lainnya.</p>` : ""}
+                    </td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 20px; text-align: center; color: #999999; font-size: 12px;">
+                      Email ini dikirim otomatis setiap hari selama ada pesanan yang terlambat.
+                    </td>
+                  </tr>
+                </table>
+              </td>
+            </tr>
+          </table>
+        </body>
+      </html>`;
+
+  const emailData = {
+    Messages: [
+      {
+        From: {
+          Email: 'no-reply@cucibayargo.com',
+          Name: 'Cucibayargo',
+        },
+        To: [
+          {
+            Email: email,
+          },
+        ],
+        Subject: emailSubject,
+        HTMLPart: emailBody,
+      },
+    ],
+  };
+
+  const response = await mailjet.post('send', { version: 'v3.1' }).request(emailData);
+  console.log(`Overdue digest sent to ${email} with response:`, response.body);
+};
+
+const sendPickupReminderEmail = async (
+  reminder: PickupReminderCandidate,
+  trackingUrl?: string
+): Promise<void> => {
+  const mailjet = Mailjet.apiConnect(
+    process.env.MAILJET_API_KEY as string,
+    process.env.MAILJET_API_SECRET as string,
+    { options: { timeout: 20000 } }
+  );
+
+  const options: Intl.DateTimeFormatOptions = {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "Asia/Jakarta",
+  };
+  const currency = new Intl.NumberFormat("id-ID", {
+    style: "currency",
+    currency: "IDR",
+    maximumFractionDigits: 0,
+  });
+  const storageFee = Number(reminder.storage_fee_amount);
+
+  const emailSubject = `Cucian Anda Siap Diambil di ${reminder.merchant_name}`;
+  const emailBody = `
+      <html>
+        <body style="font-family: Arial, sans-serif; background-color: #f4f4f4; margin: 0; padding: 0;">
+          <table align="center" width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background-color: #f4f4f4; padding: 40px 0;">
+            <tr>
+              <td>
+                <table align="center" width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background-color: #ffffff; padding: 20px; border-radius: 10px; box-shadow: 0 0 10px rgba(0, 0, 0, 0.1);">
+                  <tr>
+                    <td style="text-align: center;">
+                      <img src="https://sbuysfjktbupqjyoujht.supabase.co/storage/v1/object/public/logos/logo.png" alt="Cucibayargo" style="width: 150px; margin-bottom: 20px;" />
+                    </td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 20px;">
+                      <h1 style="color: #333333; text-align: center;">Cucian Anda Menunggu</h1>
+                      <p style="font-size: 16px; color: #555555;">
+                        Halo ${reminder.customer_name || "Pelanggan"},
+                      </p>
+                      <p style="font-size: 16px; color: #555555;">
+                        Cucian Anda dengan nomor invoice <strong>${reminder.invoice_id}</strong> sudah siap diambil di
+                        ${reminder.merchant_name} sejak ${new Intl.DateTimeFormat("id-ID", options).format(new Date(reminder.ready_to_pick_up_at))}
+                        (${reminder.reminder_day} hari yang lalu).
+                      </p>
+                      ${storageFee > 0 ? `<p style="font-size: 16px; color: #d93025;">Biaya penyimpanan saat ini: ${currency.format(storageFee)}. Biaya bertambah setiap hari sampai cucian diambil.</p>` : ""}
+                      <p style="font-size: 16px; color: #555555;">
+                        Total tagihan: <strong>${currency.format(Number(reminder.total_amount_due))}</strong>
+                      </p>
+                      ${trackingUrl ? `<p style="text-align: center;"><a href="${trackingUrl}" style="display: inline-block; padding: 10px 20px; background-color: #1a73e8; color: #ffffff; text-decoration: none; border-radius: 5px;">Lihat Pesanan</a></p>` : ""}
+                      ${reminder.merchant_phone_number ? `<p style="font-size: 14px; color: #555555;">Hubungi kami di ${reminder.merchant_phone_number} jika ada pertanyaan.</p>` : ""}
+                    </td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 20px; text-align: center; color: #999999; font-size: 12px;">
+                      Email ini dikirim otomatis karena cucian Anda belum diambil.
+                    </td>
+                  </tr>
+                </table>
+              </td>
+            </tr>
+          </table>
+        </body>
+      </html>`;
+
+  const emailData = {
+    Messages: [
+      {
+        From: {
+          Email: 'no-reply@cucibayargo.com',
+          Name: 'Cucibayargo',
+        },
+        To: [
+          {
+            Email: reminder.customer_email,
+          },
+        ],
+        Subject: emailSubject,
+        HTMLPart: emailBody,
+      },
+    ],
+  };
+
+  const response = await mailjet.post('send', { version: 'v3.1' }).request(emailData);
+  console.log(`Pickup reminder sent to ${reminder.customer_email} with response:`, response.body);
+};
@@ -0,0 +1,28 @@
+import express, { Response } from "express";
+import { AuthenticatedRequest } from "../../middlewares";
+import { requireCronToken } from "../../middlewares/cron";
+import { sendOverdueDigests, sendPickupReminders } from "./controller";
+
+const router = express.Router();
+
+router.get("/overdue-digest", requireCronToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sent = await sendOverdueDigests();
+    res.status(200).json({ message: "Overdue digests sent", sent });
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({ message: err.message });
+  }
+});
+
+router.get("/pickup-reminders", requireCronToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sent = await sendPickupReminders();
+    res.status(200).json({ message: "Pickup reminders sent", sent });
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({ message: err.message });
+  }
+});
+
+export default router;
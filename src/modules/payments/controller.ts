@@ -1,7 +1,7 @@
-import pool from "../../database/postgres";
+import { getClient, withUnitOfWork } from "../../database/unitOfWork";
 import { getCustomerById } from "../customer/controller";
 import { Customer } from "../customer/types";
-import { Payment, PaymentDetails, PaymentInput } from "./types";
+import { Payment, PaymentAdjustment, PaymentAdjustmentInput, PaymentDetails, PaymentInput } from "./types";
 
 /**
  * Add a new payment to the database.
@@ -13,7 +13,7 @@ export async function addPayment(
     payment: Omit<PaymentInput, "id">,
     merchant_id?: string
 ): Promise<PaymentDetails | null> {
-    const client = await pool.connect();
+    const client = await getClient();
     try {
         const { status, invoice_id, transaction_id, total_amount_due } = payment;
 
@@ -40,13 +40,30 @@ export async function addPayment(
 
 /**
  * Update an existing payment in the database.
+ * Payments of cancelled transactions and refunded payments cannot be settled again.
  * @param id - The ID of the payment to update
  * @param paymentParams - The updated payment data (status and change given).
  * @returns {Promise<Payment>} - A promise that resolves to the updated payment.
  */
 export async function updatePayment(invoiceId: string, paymentParams: { change_given: number, payment_received: number, payment_method: string }): Promise<{customer : Customer, invoice: string}> {
-    const client = await pool.connect();
+  return withUnitOfWork(async () => {
+    const client = await getClient();
     try {
+      const current = await client.query(`
+        SELECT p.status AS payment_status, t.status AS transaction_status
+        FROM payment p
+        JOIN transaction t ON t.id = p.transaction_id
+        WHERE p.invoice_id = $1
+        FOR UPDATE OF p
+      `, [invoiceId]);
+      const [state] = current.rows;
+      if (state && (state.transaction_status === 'Dibatalkan' || state.payment_status === 'Dibatalkan')) {
+        throw new Error("Transaksi sudah dibatalkan");
+      }
+      if (state?.payment_status === 'Dikembalikan') {
+        throw new Error("Pembayaran sudah dikembalikan");
+      }
+
       const { change_given, payment_received, payment_method} = paymentParams;
       const query = `
         UPDATE payment
@@ -66,6 +83,7 @@ export async function updatePayment(invoiceId: string, paymentParams: { change_g
     } finally {
       client.release();
     }
+  });
 }
 
 /**
@@ -74,13 +92,13 @@ export async function updatePayment(invoiceId: string, paymentParams: { change_g
  * @returns {Promise<PaymentDetails | null>} - A promise that resolves to the payment details with services or null if not found.
  */
 export async function getPaymentByInvoiceId(invoiceId: string): Promise<PaymentDetails | null> {
-    const client = await pool.connect();
+    const client = await getClient();
     try {
         const res = await client.query(`
             SELECT 
                 p.id AS payment_id,
                 p.invoice_id AS invoice,
-                SUM(ti.price * ti.qty) AS total,
+                p.total_amount_due AS total,
                 p.status AS payment_status,
                 p.payment_method,
                 json_agg(
@@ -88,14 +106,15 @@ export async function getPaymentByInvoiceId(invoiceId: string): Promise<PaymentD
                         'service_id', ti.service_id,
                         'service_name', ti.service_name,
                         'price', ti.price,
-                        'quantity', ti.qty
+                        'quantity', ti.qty,
+                        'total_price', ti.total_price
                     )
                 ) AS services
             FROM transaction t
             LEFT JOIN payment p ON t.id = p.transaction_id
             LEFT JOIN transaction_item ti ON t.id = ti.transaction_id
             WHERE p.invoice_id = $1
-            GROUP BY p.id, p.invoice_id, p.status
+            GROUP BY p.id, p.invoice_id, p.status, p.total_amount_due
         `, [invoiceId]);
 
         return res.rows[0] || null;
@@ -104,8 +123,30 @@ export async function getPaymentByInvoiceId(invoiceId: string): Promise<PaymentD
     }
 }
 
+/**
+ * Record a refund or an extra charge settled against an existing payment.
+ * @param adjustment - The adjustment data (excluding ID).
+ * @returns {Promise<PaymentAdjustment>} - A promise that resolves to the recorded adjustment.
+ */
+export async function addPaymentAdjustment(
+    adjustment: PaymentAdjustmentInput
+): Promise<PaymentAdjustment> {
+    const client = await getClient();
+    try {
+        const { payment_id, transaction_id, type, amount, note, created_by } = adjustment;
+        const res = await client.query(`
+            INSERT INTO payment_adjustment (payment_id, transaction_id, type, amount, note, created_by)
+            VALUES ($1, $2, $3, $4, $5, $6)
+            RETURNING id, payment_id, transaction_id, type, amount::double precision AS amount, note, created_by, created_at
+        `, [payment_id, transaction_id, type, amount, note || null, created_by || null]);
+        return res.rows[0];
+    } finally {
+        client.release();
+    }
+}
+
 async function getCustomerByPatmentId(payment: string) {
-    const client = await pool.connect();
+    const client = await getClient();
     try {
         const res = await client.query(`
             SELECT 
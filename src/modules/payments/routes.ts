@@ -1,11 +1,13 @@
 import express, { Request, Response } from "express";
 import { getPaymentByInvoiceId, updatePayment } from "./controller";
+import { idempotent } from "../../middlewares/idempotency";
+import { scopeToMerchant } from "../../middlewares/tenant";
 
 const router = express.Router();
 
 
 
-router.put('/:invoiceId', async (req: Request, res: Response) => {
+router.put('/:invoiceId', scopeToMerchant('invoice', 'invoiceId'), idempotent, async (req: Request, res: Response) => {
   const { invoiceId } = req.params;
   const { payment_received, change_given, payment_method } = req.body;
 
@@ -23,12 +25,15 @@ router.put('/:invoiceId', async (req: Request, res: Response) => {
       data: updatedPayment
     });
   } catch (error) {
+    if (error instanceof Error && (error.message.includes('dibatalkan') || error.message.includes('dikembalikan'))) {
+      return res.status(409).json({ message: error.message });
+    }
     console.log(error);
     res.status(404).json({ message: 'Pembayaran tidak ditemukan.' });
   }
 });
 
-router.get('/:invoiceId', async (req: Request, res: Response) => {
+router.get('/:invoiceId', scopeToMerchant('invoice', 'invoiceId'), async (req: Request, res: Response) => {
   const { invoiceId } = req.params;
 
   if (!invoiceId) {
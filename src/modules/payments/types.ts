@@ -1,6 +1,6 @@
 export interface PaymentInput {
   transaction_id: string;
-  status: "Belum Dibayar" | "Lunas";
+  status: "Belum Dibayar" | "Lunas" | "Dibatalkan" | "Dikembalikan";
   total_amount_due: number;
   invoice_id: string;
 }
@@ -8,13 +8,26 @@ export interface PaymentInput {
 export interface Payment {
   id: string;
   transaction_id: string;
-  status: "Belum Dibayar" | "Lunas";
+  status: "Belum Dibayar" | "Lunas" | "Dibatalkan" | "Dikembalikan";
   total_amount_due: string;
   invoice_id: string;
   payment_received: string;
   change_given: string;
 }
 
+export interface PaymentAdjustmentInput {
+  payment_id: string;
+  transaction_id: string;
+  type: "refund" | "charge";
+  amount: number;
+  note?: string | null;
+  created_by?: string;
+}
+
+export interface PaymentAdjustment extends PaymentAdjustmentInput {
+  id: string;
+  created_at: Date;
+}
 
 export interface Service {
   service_id: string;
@@ -8,6 +8,7 @@ import {
   deletePrintedDevice,
 } from "./controller";
 import { AuthenticatedRequest } from "../../middlewares";
+import { scopeToMerchant } from "../../middlewares/tenant";
 import { formatJoiError } from "../../utils";
 
 const router = express.Router();
@@ -24,7 +25,7 @@ router.get("/", async (req: AuthenticatedRequest, res) => {
   }
 });
 
-router.get("/:id", async (req, res) => {
+router.get("/:id", scopeToMerchant("printer"), async (req, res) => {
   try {
     const device = await getPrintedDeviceById(req.params.id);
     if (!device) {
@@ -56,7 +57,7 @@ router.post("/", async (req: AuthenticatedRequest, res) => {
   }
 });
 
-router.put("/:id", async (req: AuthenticatedRequest, res) => {
+router.put("/:id", scopeToMerchant("printer"), async (req: AuthenticatedRequest, res) => {
   const { error } = printedDeviceSchema.validate(req.body, { abortEarly: false });
   if (error) {
     return res.status(400).json({ message: formatJoiError(error) });
@@ -78,7 +79,7 @@ router.put("/:id", async (req: AuthenticatedRequest, res) => {
   }
 });
 
-router.delete("/:id", async (req, res) => {
+router.delete("/:id", scopeToMerchant("printer"), async (req, res) => {
   try {
     await deletePrintedDevice(req.params.id);
     res.json({ status: "success", message: "Printer berhasil dihapus" });
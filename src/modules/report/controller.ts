@@ -114,7 +114,7 @@ async function getReportData(start_date: string, end_date: string, merchantId: s
             SELECT 
                 TO_CHAR(ds.date, 'DD-MM-YYYY') AS date,
                 COALESCE(COUNT(ti.id), 0) AS total_transactions,
-                COALESCE(SUM(ti.qty * ti.price), 0) - COALESCE(
+                COALESCE(SUM(ti.total_price + ti.addon_total), 0) - COALESCE(
                     (SELECT SUM(COALESCE(t2.discount_amount, 0))
                      FROM transaction t2
                      WHERE t2.created_at::DATE = ds.date
@@ -168,11 +168,12 @@ export async function getDashboardSummary(merchant_id: string): Promise<{ today_
     try {
         const query = `
             SELECT
-                COALESCE(SUM(ti.price * ti.qty), 0) - COALESCE(
+                COALESCE(SUM(ti.total_price + ti.addon_total), 0) - COALESCE(
                     (SELECT SUM(COALESCE(t2.discount_amount, 0))
                      FROM transaction t2
                      WHERE t2.merchant_id = $1
                        AND t2.deleted_at IS NULL
+                       AND t2.status IS DISTINCT FROM 'Dibatalkan'
                        AND t2.created_at::date = CURRENT_DATE
                     ), 0
                 ) AS today_revenue,
@@ -181,6 +182,7 @@ export async function getDashboardSummary(merchant_id: string): Promise<{ today_
             LEFT JOIN transaction_item ti ON ti.transaction_id = t.id
             WHERE t.merchant_id = $1
               AND t.deleted_at IS NULL
+              AND t.status IS DISTINCT FROM 'Dibatalkan'
               AND t.created_at::date = CURRENT_DATE
         `;
 
@@ -313,7 +315,7 @@ export async function getServiceReport(
                 ARRAY_AGG(DISTINCT ti.duration_id) AS duration,
                 COALESCE(SUM(ti.qty), 0) AS total_pcs,
                 COALESCE(COUNT(DISTINCT t.id), 0) AS total_orders,
-                COALESCE(SUM(ti.qty * ti.price), 0) AS total_revenue
+                COALESCE(SUM(ti.total_price), 0) AS total_revenue
             FROM transaction_item ti
             JOIN transaction t ON t.id = ti.transaction_id
             WHERE t.merchant_id = $1
@@ -354,7 +356,12 @@ export async function getFinanceReport(
     start_date: string,
     end_date: string
 ): Promise<{
-    revenue: { total: number; by_service: Array<{ name: string; amount: number }> };
+    revenue: {
+        total: number;
+        by_service: Array<{ name: string; amount: number }>;
+        addons: number;
+        by_addon: Array<{ name: string; amount: number }>;
+    };
     income: {
         total: number;
         tunai: number;
@@ -368,16 +375,31 @@ export async function getFinanceReport(
         const revenueByServiceQuery = `
             SELECT
                 ti.service_name AS name,
-                COALESCE(SUM(ti.qty * ti.price), 0) AS amount
+                COALESCE(SUM(ti.total_price), 0) AS amount
             FROM transaction_item ti
             JOIN transaction t ON t.id = ti.transaction_id
             WHERE t.merchant_id = $1
               AND t.deleted_at IS NULL
+              AND t.status IS DISTINCT FROM 'Dibatalkan'
               AND t.created_at::date BETWEEN $2::date AND $3::date
             GROUP BY ti.service_name
             ORDER BY amount DESC
         `;
 
+        const revenueByAddonQuery = `
+            SELECT
+                a.name,
+                COALESCE(SUM(a.total_price), 0) AS amount
+            FROM transaction_item_addon a
+            JOIN transaction t ON t.id = a.transaction_id
+            WHERE t.merchant_id = $1
+              AND t.deleted_at IS NULL
+              AND t.status IS DISTINCT FROM 'Dibatalkan'
+              AND t.created_at::date BETWEEN $2::date AND $3::date
+            GROUP BY a.name
+            ORDER BY amount DESC
+        `;
+
         const incomeByPaymentMethodQuery = `
             SELECT
                 CASE
@@ -389,6 +411,7 @@ export async function getFinanceReport(
             JOIN transaction t ON t.id = p.transaction_id
             WHERE t.merchant_id = $1
               AND t.deleted_at IS NULL
+              AND t.status IS DISTINCT FROM 'Dibatalkan'
               AND p.status = 'Lunas'
               AND p.payment_at::date BETWEEN $2::date AND $3::date
             GROUP BY 1
@@ -406,8 +429,9 @@ export async function getFinanceReport(
             ORDER BY amount DESC
         `;
 
-        const [revenueByServiceResult, incomeByPaymentMethodResult, expensesByCategoryResult] = await Promise.all([
+        const [revenueByServiceResult, revenueByAddonResult, incomeByPaymentMethodResult, expensesByCategoryResult] = await Promise.all([
             client.query(revenueByServiceQuery, [merchant_id, start_date, end_date]),
+            client.query(revenueByAddonQuery, [merchant_id, start_date, end_date]),
             client.query(incomeByPaymentMethodQuery, [merchant_id, start_date, end_date]),
             client.query(expensesByCategoryQuery, [merchant_id, start_date, end_date]),
         ]);
@@ -416,6 +440,10 @@ export async function getFinanceReport(
             name: row.name,
             amount: Number(row.amount),
         }));
+        const by_addon = revenueByAddonResult.rows.map((row) => ({
+            name: row.name,
+            amount: Number(row.amount),
+        }));
         const by_category = expensesByCategoryResult.rows.map((row) => ({
             name: row.category,
             amount: Number(row.amount),
@@ -433,8 +461,10 @@ export async function getFinanceReport(
 
         return {
             revenue: {
-                total: by_service.reduce((sum, item) => sum + item.amount, 0),
+                total: [...by_service, ...by_addon].reduce((sum, item) => sum + item.amount, 0),
                 by_service,
+                addons: by_addon.reduce((sum, item) => sum + item.amount, 0),
+                by_addon,
             },
             income: {
                 total: by_payment_method.reduce((sum, item) => sum + item.amount, 0),
@@ -452,6 +482,67 @@ export async function getFinanceReport(
     }
 }
 
+export async function getTaxReport(
+    merchant_id: string,
+    start_date: string,
+    end_date: string
+): Promise<{
+    summary: {
+        total_transactions: number;
+        tax_base: number;
+        tax_amount: number;
+        service_charge_amount: number;
+    };
+    by_date: Array<{
+        date: string;
+        total_transactions: number;
+        tax_base: number;
+        tax_amount: number;
+        service_charge_amount: number;
+    }>;
+}> {
+    const client = await pool.connect();
+    try {
+        const query = `
+            SELECT
+                TO_CHAR(t.created_at::date, 'YYYY-MM-DD') AS date,
+                COUNT(*) AS total_transactions,
+                COALESCE(SUM(t.tax_base), 0) AS tax_base,
+                COALESCE(SUM(t.tax_amount), 0) AS tax_amount,
+                COALESCE(SUM(t.service_charge_amount), 0) AS service_charge_amount
+            FROM transaction t
+            WHERE t.merchant_id = $1
+              AND t.deleted_at IS NULL
+              AND t.status IS DISTINCT FROM 'Dibatalkan'
+              AND (t.tax_amount > 0 OR t.service_charge_amount > 0)
+              AND t.created_at::date BETWEEN $2::date AND $3::date
+            GROUP BY t.created_at::date
+            ORDER BY t.created_at::date
+        `;
+
+        const result = await client.query(query, [merchant_id, start_date, end_date]);
+        const by_date = result.rows.map((row) => ({
+            date: row.date,
+            total_transactions: Number(row.total_transactions),
+            tax_base: Number(row.tax_base),
+            tax_amount: Number(row.tax_amount),
+            service_charge_amount: Number(row.service_charge_amount),
+        }));
+
+        return {
+            summary: {
+                total_transactions: by_date.reduce((sum, item) => sum + item.total_transactions, 0),
+                tax_base: by_date.reduce((sum, item) => sum + item.tax_base, 0),
+                tax_amount: by_date.reduce((sum, item) => sum + item.tax_amount, 0),
+                service_charge_amount: by_date.reduce((sum, item) => sum + item.service_charge_amount, 0),
+            },
+            by_date,
+        };
+    } finally {
+        client.release();
+    }
+}
+
 export async function getCustomersReport(
     merchant_id: string,
     month: number,
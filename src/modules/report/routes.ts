@@ -5,6 +5,7 @@ import {
     getDashboardSummary,
     getFinanceReport,
     getServiceReport,
+    getTaxReport,
     getTransactionsReport,
     getTransactionsSummary,
 } from './controller';
@@ -136,6 +137,27 @@ router.get('/finance', async (req: AuthenticatedRequest, res) => {
     }
 });
 
+router.get('/tax', async (req: AuthenticatedRequest, res) => {
+    try {
+        const { start_date, end_date } = req.query;
+        if (!start_date || !end_date) {
+            return res.status(400).json({ message: 'start_date dan end_date wajib diisi.' });
+        }
+
+        const startDate = parseISO(start_date as string);
+        const endDate = parseISO(end_date as string);
+        if (!isValid(startDate) || !isValid(endDate)) {
+            return res.status(400).json({ message: 'Format tanggal tidak valid.' });
+        }
+
+        const data = await getTaxReport(req.userId as string, start_date as string, end_date as string);
+        res.status(200).json(data);
+    } catch (error) {
+        console.error('Error fetching tax report:', error);
+        res.status(500).json({ message: 'Terjadi kesalahan pada server.' });
+    }
+});
+
 router.get('/customers', async (req: AuthenticatedRequest, res) => {
     try {
         const { month, year } = req.query;
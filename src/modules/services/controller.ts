@@ -1,5 +1,6 @@
 import pool from "../../database/postgres";
-import { Service, ServiceDurationDetail } from "./types";
+import { getClient } from "../../database/unitOfWork";
+import { PriceTier, Service, ServiceDurationDetail, ServicePriceResult, ServicePricing } from "./types";
 
 /**
  * Fetches all services with their IDs, names, and optional prices from the database.
@@ -24,6 +25,9 @@ export async function getAllServices(
         service.name,
         service.unit, 
         service_duration.price,
+        service_duration.min_qty,
+        service_duration.min_charge,
+        service_duration.price_tiers,
         duration.name AS duration_name,
         duration.id AS duration_id,
         substring(md5(random()::text || clock_timestamp()::text) for 8) AS unique_id
@@ -134,7 +138,10 @@ export async function getServiceById(serviceId: string): Promise<Service | null>
              service_duration.id AS duration_id,
              service_duration.duration,
              duration.name AS duration_name,
-             service_duration.price
+             service_duration.price,
+             service_duration.min_qty,
+             service_duration.min_charge,
+             service_duration.price_tiers
       FROM service
       LEFT JOIN service_duration ON service.id = service_duration.service
       LEFT JOIN duration ON service_duration.duration = duration.id
@@ -161,6 +168,9 @@ export async function getServiceById(serviceId: string): Promise<Service | null>
           duration: row.duration,
           duration_name: row.duration_name,
           price: row.price,
+          min_qty: row.min_qty,
+          min_charge: row.min_charge,
+          price_tiers: row.price_tiers,
         });
       }
     });
@@ -192,10 +202,17 @@ export async function addService(service: Omit<Service, 'id'>, merchant_id?: str
     const durationQueries = durations.map(duration => {
       return {
         text: `
-          INSERT INTO service_duration (service, duration, price)
-          VALUES ($1, $2, $3);
+          INSERT INTO service_duration (service, duration, price, min_qty, min_charge, price_tiers)
+          VALUES ($1, $2, $3, $4, $5, $6);
         `,
-        values: [newServiceId, duration.duration, duration.price],
+        values: [
+          newServiceId,
+          duration.duration,
+          duration.price,
+          duration.min_qty ?? null,
+          duration.min_charge ?? null,
+          JSON.stringify(sortPriceTiers(duration.price_tiers)),
+        ],
       };
     });
 
@@ -240,10 +257,17 @@ export async function updateService(id: string, service: Omit<Service, 'id'>): P
     const durationQueries = durations.map(duration => {
       return {
         text: `
-          INSERT INTO service_duration (service, duration, price)
-          VALUES ($1, $2, $3);
+          INSERT INTO service_duration (service, duration, price, min_qty, min_charge, price_tiers)
+          VALUES ($1, $2, $3, $4, $5, $6);
         `,
-        values: [id, duration.duration, duration.price],
+        values: [
+          id,
+          duration.duration,
+          duration.price,
+          duration.min_qty ?? null,
+          duration.min_charge ?? null,
+          JSON.stringify(sortPriceTiers(duration.price_tiers)),
+        ],
       };
     });
 
@@ -280,22 +304,78 @@ export async function deleteService(id: string): Promise<void> {
 }
 
 
-export async function getServiceDurationDetail(service: string, duration: string): Promise<ServiceDurationDetail> {
-  const client = await pool.connect();
+/**
+ * Retrieve the name, unit and pricing of a service for one duration.
+ * @param service - The ID of the service.
+ * @param duration - The ID of the duration.
+ * @param merchantId - When given, only a service of this merchant is returned.
+ * @returns {Promise<ServiceDurationDetail>} - The service detail, or undefined if not found.
+ */
+export async function getServiceDurationDetail(
+  service: string,
+  duration: string,
+  merchantId?: string
+): Promise<ServiceDurationDetail> {
+  const client = await getClient();
   try {
     const query = `
       SELECT
         service.name,
         service.unit,
         service.id,
-        service_duration.price
+        service_duration.price,
+        service_duration.min_qty,
+        service_duration.min_charge,
+        service_duration.price_tiers
       FROM service
       LEFT JOIN service_duration ON service_duration.service = service.id 
       WHERE service.id = $1 AND service_duration.duration = $2
+        AND ($3::uuid IS NULL OR service.merchant_id = $3)
     `
-     const result = await client.query(query, [service, duration]);
+     const result = await client.query(query, [service, duration, merchantId || null]);
      return result?.rows?.[0];
   } finally {
     client.release();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Order price tiers from the smallest to the largest minimum quantity.
+ * @param tiers - The tiers as submitted, possibly missing.
+ * @returns {PriceTier[]} - The sorted tiers.
+ */
+function sortPriceTiers(tiers?: PriceTier[] | null): PriceTier[] {
+  return [...(tiers || [])].sort((a, b) => a.min_qty - b.min_qty);
+}
+
+/**
+ * Work out what an item costs under the pricing rules of its service duration.
+ * The highest tier whose minimum quantity is reached replaces the base unit price,
+ * a minimum quantity is charged when less is brought in, and the result is never
+ * below the minimum charge.
+ *
+ * @param pricing - The pricing rules of the service duration.
+ * @param qty - The quantity brought in by the customer.
+ * @returns {ServicePriceResult} - The unit price, charged quantity, total and the tier used.
+ */
+export function calculateServicePrice(pricing: ServicePricing, qty: number): ServicePriceResult {
+  const quantity = Number(qty) || 0;
+
+  let appliedTier: PriceTier | null = null;
+  for (const tier of sortPriceTiers(pricing.price_tiers)) {
+    if (quantity >= Number(tier.min_qty)) {
+      appliedTier = { min_qty: Number(tier.min_qty), price: Number(tier.price) };
+    }
+  }
+
+  const price = appliedTier ? appliedTier.price : Number(pricing.price);
+  const billedQty = Math.max(quantity, Number(pricing.min_qty) || 0);
+  const totalPrice = Math.max(price * billedQty, Number(pricing.min_charge) || 0);
+
+  return {
+    price,
+    billed_qty: billedQty,
+    total_price: totalPrice,
+    applied_tier: appliedTier,
+  };
+}
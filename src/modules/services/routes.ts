@@ -2,6 +2,7 @@ import express from 'express';
 import { serviceSchema } from './types';
 import { addService, deleteService, getAllServices, getServiceById, getServices, updateService } from './controller';
 import { AuthenticatedRequest } from '../../middlewares';
+import { scopeToMerchant } from '../../middlewares/tenant';
 import { formatJoiError } from '../../utils';
 
 const router = express.Router();
@@ -67,7 +68,7 @@ router.post('/', async (req: AuthenticatedRequest, res) => {
   }
 });
 
-router.put('/:id', async (req, res) => {
+router.put('/:id', scopeToMerchant('service'), async (req, res) => {
   const { error } = serviceSchema.validate(req.body);
   if (error) {
     const message = formatJoiError(error);
@@ -85,7 +86,7 @@ router.put('/:id', async (req, res) => {
   }
 });
 
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', scopeToMerchant('service'), async (req, res) => {
   try {
     await deleteService(req.params.id);
     res.status(200).json({
@@ -97,7 +98,7 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
-router.get('/:id', async (req, res) => {
+router.get('/:id', scopeToMerchant('service'), async (req, res) => {
   const serciveId = req.params.id;
 
   try {
@@ -1,10 +1,32 @@
 import Joi from "joi";
+
+// Cheaper per-unit price once the quantity reaches min_qty
+export interface PriceTier {
+  min_qty: number;
+  price: number;
+}
+
+// Pricing rules of a service for one duration
+export interface ServicePricing {
+  price: number;
+  min_qty?: number | null;
+  min_charge?: number | null;
+  price_tiers?: PriceTier[];
+}
+
+// Outcome of applying ServicePricing to a quantity
+export interface ServicePriceResult {
+  price: number; // Per-unit price actually used
+  billed_qty: number; // Quantity charged after the minimum quantity
+  total_price: number;
+  applied_tier: PriceTier | null;
+}
+
 // Define the Duration type
-export interface Duration {
+export interface Duration extends ServicePricing {
   id: string;
   duration: number; // Duration in minutes
   duration_name: string; // Name of the duration
-  price: number; // Price for the duration
 }
 
 // Define the Service type
@@ -15,11 +37,10 @@ export interface Service {
   durations: Duration[];
 }
 
-export interface ServiceDurationDetail {
+export interface ServiceDurationDetail extends ServicePricing {
   id: string;
   name: string;
   unit: string;
-  price: number;
 }
 
 export const serviceSchema = Joi.object({
@@ -46,6 +67,37 @@ export const serviceSchema = Joi.object({
           'number.min': 'Harga tidak boleh kurang dari 0',
           'any.required': 'Harga wajib diisi',
         }),
+        min_qty: Joi.number().positive().allow(null).messages({
+          'number.base': 'Jumlah minimum harus berupa angka',
+          'number.positive': 'Jumlah minimum harus lebih dari 0',
+        }),
+        min_charge: Joi.number().integer().min(0).allow(null).messages({
+          'number.base': 'Biaya minimum harus berupa angka',
+          'number.integer': 'Biaya minimum harus berupa bilangan bulat',
+          'number.min': 'Biaya minimum tidak boleh kurang dari 0',
+        }),
+        price_tiers: Joi.array()
+          .items(
+            Joi.object({
+              min_qty: Joi.number().positive().required().messages({
+                'number.base': 'Jumlah tingkat harga harus berupa angka',
+                'number.positive': 'Jumlah tingkat harga harus lebih dari 0',
+                'any.required': 'Jumlah tingkat harga wajib diisi',
+              }),
+              price: Joi.number().integer().min(0).required().messages({
+                'number.base': 'Harga tingkat harus berupa angka',
+                'number.integer': 'Harga tingkat harus berupa bilangan bulat',
+                'number.min': 'Harga tingkat tidak boleh kurang dari 0',
+                'any.required': 'Harga tingkat wajib diisi',
+              }),
+            })
+          )
+          .unique('min_qty')
+          .default([])
+          .messages({
+            'array.base': 'Tingkat harga harus berupa array',
+            'array.unique': 'Jumlah tingkat harga tidak boleh sama',
+          }),
       })
     )
     .min(1)
@@ -0,0 +1,555 @@
+import { getClient } from "../../database/unitOfWork";
+import {
+  BusinessCalendar,
+  BusinessHoursSettings,
+  CapacitySettings,
+  InvoiceSettings,
+  MerchantHoliday,
+  MerchantSettings,
+  MerchantTimezone,
+  PhotoSettings,
+  PickupSettings,
+  TaxBreakdown,
+  TaxSettings,
+  TrashSettings,
+} from "./types";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const DEFAULT_PHOTO_RETENTION_DAYS = 180;
+export const DEFAULT_PICKUP_REMINDER_DAYS = [3, 7, 14];
+
+// Offset from UTC of each Indonesian time zone, in minutes
+const TIMEZONE_OFFSETS: Record<MerchantTimezone, number> = {
+  "Asia/Jakarta": 7 * 60,
+  "Asia/Makassar": 8 * 60,
+  "Asia/Jayapura": 9 * 60,
+};
+
+const SETTINGS_COLUMNS = `
+  merchant_id,
+  tax_rate::double precision AS tax_rate,
+  tax_inclusive,
+  service_charge_rate::double precision AS service_charge_rate,
+  trash_retention_days,
+  photo_retention_days,
+  pickup_reminder_days,
+  storage_fee_per_day::double precision AS storage_fee_per_day,
+  storage_fee_grace_days,
+  timezone,
+  operating_hours,
+  TO_CHAR(same_day_cutoff, 'HH24:MI') AS same_day_cutoff,
+  daily_capacity,
+  capacity_enforcement,
+  invoice_prefix,
+  invoice_date_pattern,
+  invoice_padding,
+  invoice_reset,
+  created_at,
+  updated_at
+`;
+
+/**
+ * Retrieve the settings of a merchant, falling back to the defaults when none were saved yet.
+ * @param merchantId - The ID of the merchant.
+ * @returns {Promise<MerchantSettings>} - The merchant settings.
+ */
+export async function getMerchantSettings(merchantId: string): Promise<MerchantSettings> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `SELECT ${SETTINGS_COLUMNS} FROM merchant_settings WHERE merchant_id = $1`,
+      [merchantId]
+    );
+
+    return (
+      rows[0] || {
+        merchant_id: merchantId,
+        tax_rate: 0,
+        tax_inclusive: false,
+        service_charge_rate: 0,
+        trash_retention_days: DEFAULT_TRASH_RETENTION_DAYS,
+        photo_retention_days: DEFAULT_PHOTO_RETENTION_DAYS,
+        pickup_reminder_days: DEFAULT_PICKUP_REMINDER_DAYS,
+        storage_fee_per_day: 0,
+        storage_fee_grace_days: 7,
+        timezone: "Asia/Jakarta",
+        operating_hours: null,
+        same_day_cutoff: null,
+        daily_capacity: {},
+        capacity_enforcement: "warn",
+        invoice_prefix: null,
+        invoice_date_pattern: null,
+        invoice_padding: 4,
+        invoice_reset: "never",
+      }
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Save the tax and service charge settings of a merchant.
+ * @param merchantId - The ID of the merchant.
+ * @param settings - The new tax settings.
+ * @returns {Promise<MerchantSettings>} - The saved merchant settings.
+ */
+export async function updateTaxSettings(
+  merchantId: string,
+  settings: TaxSettings
+): Promise<MerchantSettings> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      INSERT INTO merchant_settings (merchant_id, tax_rate, tax_inclusive, service_charge_rate)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (merchant_id) DO UPDATE
+      SET tax_rate = EXCLUDED.tax_rate,
+          tax_inclusive = EXCLUDED.tax_inclusive,
+          service_charge_rate = EXCLUDED.service_charge_rate,
+          updated_at = NOW()
+      RETURNING ${SETTINGS_COLUMNS}
+      `,
+      [merchantId, settings.tax_rate, settings.tax_inclusive, settings.service_charge_rate ?? 0]
+    );
+    return rows[0];
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Save how long deleted transactions of a merchant are kept in the trash.
+ * @param merchantId - The ID of the merchant.
+ * @param settings - The new trash settings.
+ * @returns {Promise<MerchantSettings>} - The saved merchant settings.
+ */
+export async function updateTrashSettings(
+  merchantId: string,
+  settings: TrashSettings
+): Promise<MerchantSettings> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      INSERT INTO merchant_settings (merchant_id, trash_retention_days)
+      VALUES ($1, $2)
+      ON CONFLICT (merchant_id) DO UPDATE
+      SET trash_retention_days = EXCLUDED.trash_retention_days,
+          updated_at = NOW()
+      RETURNING ${SETTINGS_COLUMNS}
+      `,
+      [merchantId, settings.trash_retention_days]
+    );
+    return rows[0];
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Save how long condition photos of a merchant's transactions are kept.
+ * @param merchantId - The ID of the merchant.
+ * @param settings - The new photo settings.
+ * @returns {Promise<MerchantSettings>} - The saved merchant settings.
+ */
+export async function updatePhotoSettings(
+  merchantId: string,
+  settings: PhotoSettings
+): Promise<MerchantSettings> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      INSERT INTO merchant_settings (merchant_id, photo_retention_days)
+      VALUES ($1, $2)
+      ON CONFLICT (merchant_id) DO UPDATE
+      SET photo_retention_days = EXCLUDED.photo_retention_days,
+          updated_at = NOW()
+      RETURNING ${SETTINGS_COLUMNS}
+      `,
+      [merchantId, settings.photo_retention_days]
+    );
+    return rows[0];
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Save when customers are reminded of uncollected laundry and what storing it costs.
+ * @param merchantId - The ID of the merchant.
+ * @param settings - The new pickup settings.
+ * @returns {Promise<MerchantSettings>} - The saved merchant settings.
+ */
+export async function updatePickupSettings(
+  merchantId: string,
+  settings: PickupSettings
+): Promise<MerchantSettings> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      INSERT INTO merchant_settings (merchant_id, pickup_reminder_days, storage_fee_per_day, storage_fee_grace_days)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (merchant_id) DO UPDATE
+      SET pickup_reminder_days = EXCLUDED.pickup_reminder_days,
+          storage_fee_per_day = EXCLUDED.storage_fee_per_day,
+          storage_fee_grace_days = EXCLUDED.storage_fee_grace_days,
+          updated_at = NOW()
+      RETURNING ${SETTINGS_COLUMNS}
+      `,
+      [
+        merchantId,
+        [...settings.pickup_reminder_days].sort((a, b) => a - b),
+        settings.storage_fee_per_day ?? 0,
+        settings.storage_fee_grace_days ?? 7,
+      ]
+    );
+    return rows[0];
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Save the time zone, weekly operating hours and same-day cutoff of a merchant.
+ * @param merchantId - The ID of the merchant.
+ * @param settings - The new business hours.
+ * @returns {Promise<MerchantSettings>} - The saved merchant settings.
+ */
+export async function updateBusinessHours(
+  merchantId: string,
+  settings: BusinessHoursSettings
+): Promise<MerchantSettings> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      INSERT INTO merchant_settings (merchant_id, timezone, operating_hours, same_day_cutoff)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (merchant_id) DO UPDATE
+      SET timezone = EXCLUDED.timezone,
+          operating_hours = EXCLUDED.operating_hours,
+          same_day_cutoff = EXCLUDED.same_day_cutoff,
+          updated_at = NOW()
+      RETURNING ${SETTINGS_COLUMNS}
+      `,
+      [
+        merchantId,
+        settings.timezone,
+        settings.operating_hours ? JSON.stringify(settings.operating_hours) : null,
+        settings.same_day_cutoff || null,
+      ]
+    );
+    return rows[0];
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Save the daily processing capacity of a merchant and whether exceeding it is refused.
+ * Units are stored upper-cased so they match service units regardless of spelling.
+ * @param merchantId - The ID of the merchant.
+ * @param settings - The new capacity settings.
+ * @returns {Promise<MerchantSettings>} - The saved merchant settings.
+ */
+export async function updateCapacitySettings(
+  merchantId: string,
+  settings: CapacitySettings
+): Promise<MerchantSettings> {
+  const client = await getClient();
+  try {
+    const dailyCapacity = Object.fromEntries(
+      Object.entries(settings.daily_capacity).map(([unit, capacity]) => [unit.trim().toUpperCase(), capacity])
+    );
+    const { rows } = await client.query(
+      `
+      INSERT INTO merchant_settings (merchant_id, daily_capacity, capacity_enforcement)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (merchant_id) DO UPDATE
+      SET daily_capacity = EXCLUDED.daily_capacity,
+          capacity_enforcement = EXCLUDED.capacity_enforcement,
+          updated_at = NOW()
+      RETURNING ${SETTINGS_COLUMNS}
+      `,
+      [merchantId, JSON.stringify(dailyCapacity), settings.capacity_enforcement]
+    );
+    return rows[0];
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Save how the invoice numbers of a merchant are built.
+ * @param merchantId - The ID of the merchant.
+ * @param settings - The new invoice numbering settings.
+ * @returns {Promise<MerchantSettings>} - The saved merchant settings.
+ */
+export async function updateInvoiceSettings(
+  merchantId: string,
+  settings: InvoiceSettings
+): Promise<MerchantSettings> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      INSERT INTO merchant_settings (merchant_id, invoice_prefix, invoice_date_pattern, invoice_padding, invoice_reset)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (merchant_id) DO UPDATE
+      SET invoice_prefix = EXCLUDED.invoice_prefix,
+          invoice_date_pattern = EXCLUDED.invoice_date_pattern,
+          invoice_padding = EXCLUDED.invoice_padding,
+          invoice_reset = EXCLUDED.invoice_reset,
+          updated_at = NOW()
+      RETURNING ${SETTINGS_COLUMNS}
+      `,
+      [
+        merchantId,
+        (settings.invoice_prefix || "INV").toUpperCase(),
+        settings.invoice_date_pattern || null,
+        settings.invoice_padding,
+        settings.invoice_reset,
+      ]
+    );
+    return rows[0];
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the counter period an invoice issued at `date` belongs to: '' when numbering
+ * never resets, otherwise the merchant's local year or year and month.
+ */
+export function getInvoicePeriod(
+  settings: Pick<MerchantSettings, "invoice_reset" | "timezone">,
+  date: Date
+): string {
+  const local = toLocalTime(date, settings.timezone).toISOString();
+  if (settings.invoice_reset === "yearly") {
+    return local.slice(0, 4);
+  }
+  if (settings.invoice_reset === "monthly") {
+    return local.slice(0, 7);
+  }
+  return "";
+}
+
+/**
+ * Build an invoice number as {prefix}-{merchant sequence}.{date}.{counter}, e.g.
+ * INV-12.2510.0001. The merchant sequence keeps numbers unique across merchants;
+ * without a date pattern the date part is left out (INV-12.0001).
+ * @param settings - The merchant's invoice settings.
+ * @param merchantSequence - The merchant's sequence number.
+ * @param counter - The number of the invoice within its period.
+ * @param date - The moment the invoice is issued.
+ * @returns {string} - The invoice number.
+ */
+export function formatInvoiceNumber(
+  settings: Pick<MerchantSettings, keyof InvoiceSettings | "timezone">,
+  merchantSequence: number,
+  counter: number,
+  date: Date
+): string {
+  const parts = [`${settings.invoice_prefix || "INV"}-${merchantSequence}`];
+  if (settings.invoice_date_pattern) {
+    const local = toLocalTime(date, settings.timezone).toISOString();
+    parts.push(
+      settings.invoice_date_pattern
+        .replace("YYYY", local.slice(0, 4))
+        .replace("YY", local.slice(2, 4))
+        .replace("MM", local.slice(5, 7))
+        .replace("DD", local.slice(8, 10))
+    );
+  }
+  parts.push(counter.toString().padStart(settings.invoice_padding, "0"));
+  return parts.join(".");
+}
+
+/**
+ * Show the invoice number the merchant's next transaction would get, without issuing it.
+ * @param merchantId - The ID of the merchant.
+ * @returns {Promise<string | null>} - The next invoice number, or null for the original format.
+ */
+export async function previewNextInvoiceNumber(merchantId: string): Promise<string | null> {
+  const settings = await getMerchantSettings(merchantId);
+  if (!settings.invoice_prefix) {
+    return null;
+  }
+
+  const now = new Date();
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      SELECT u.sequence_id, COALESCE(c.last_value, 0) AS last_value
+      FROM users u
+      LEFT JOIN invoice_counter c ON c.merchant_id = u.id AND c.period = $2
+      WHERE u.id = $1
+      `,
+      [merchantId, getInvoicePeriod(settings, now)]
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return formatInvoiceNumber(settings, rows[0].sequence_id, Number(rows[0].last_value) + 1, now);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Retrieve the holidays of a merchant, optionally limited to one year.
+ * @param merchantId - The ID of the merchant.
+ * @param year - The year to list.
+ * @returns {Promise<MerchantHoliday[]>} - The holidays ordered by date.
+ */
+export async function listHolidays(merchantId: string, year?: number): Promise<MerchantHoliday[]> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      SELECT id, merchant_id, TO_CHAR(date, 'YYYY-MM-DD') AS date, name, created_at
+      FROM merchant_holiday
+      WHERE merchant_id = $1
+        AND ($2::int IS NULL OR EXTRACT(YEAR FROM date) = $2)
+      ORDER BY date ASC
+      `,
+      [merchantId, year ?? null]
+    );
+    return rows;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Add a holiday to a merchant's calendar. A second holiday on the same date replaces its name.
+ * @param merchantId - The ID of the merchant.
+ * @param holiday - The date and name of the holiday.
+ * @returns {Promise<MerchantHoliday>} - The saved holiday.
+ */
+export async function addHoliday(
+  merchantId: string,
+  holiday: Pick<MerchantHoliday, "date" | "name">
+): Promise<MerchantHoliday> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      INSERT INTO merchant_holiday (merchant_id, date, name)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (merchant_id, date) DO UPDATE SET name = EXCLUDED.name
+      RETURNING id, merchant_id, TO_CHAR(date, 'YYYY-MM-DD') AS date, name, created_at
+      `,
+      [merchantId, holiday.date, holiday.name]
+    );
+    return rows[0];
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Remove a holiday from a merchant's calendar.
+ * @returns {Promise<boolean>} - True if the holiday existed.
+ */
+export async function deleteHoliday(id: string, merchantId: string): Promise<boolean> {
+  const client = await getClient();
+  try {
+    const { rowCount } = await client.query(
+      `DELETE FROM merchant_holiday WHERE id = $1 AND merchant_id = $2`,
+      [id, merchantId]
+    );
+    return Boolean(rowCount);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Load everything needed to calculate due dates for orders received at `from`:
+ * the merchant's business hours and its holidays from that day on.
+ * @param merchantId - The ID of the merchant.
+ * @param from - The moment the order was received.
+ * @returns {Promise<BusinessCalendar>} - The merchant's calendar.
+ */
+export async function getBusinessCalendar(
+  merchantId: string,
+  from: Date
+): Promise<BusinessCalendar> {
+  const settings = await getMerchantSettings(merchantId);
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      SELECT TO_CHAR(date, 'YYYY-MM-DD') AS date
+      FROM merchant_holiday
+      WHERE merchant_id = $1 AND date >= ($2::timestamptz - INTERVAL '1 day')::date
+      `,
+      [merchantId, from]
+    );
+
+    return {
+      timezone: settings.timezone,
+      operating_hours: settings.operating_hours,
+      same_day_cutoff: settings.same_day_cutoff,
+      holidays: rows.map((row) => row.date),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the offset from UTC of a merchant time zone in minutes, defaulting to WIB.
+ */
+export function getTimezoneOffset(timezone: MerchantTimezone): number {
+  return TIMEZONE_OFFSETS[timezone] ?? TIMEZONE_OFFSETS["Asia/Jakarta"];
+}
+
+/**
+ * Shift a moment to the merchant's wall-clock time, so UTC getters return local values.
+ */
+function toLocalTime(date: Date, timezone: MerchantTimezone): Date {
+  return new Date(date.getTime() + getTimezoneOffset(timezone) * 60 * 1000);
+}
+
+/**
+ * Apply the service charge and PPN to an amount after discount.
+ * The service charge is added on top of the amount. With exclusive tax the PPN is
+ * added on top as well; with inclusive tax it is already part of the price and only
+ * split out for the receipt.
+ *
+ * @param amount - The subtotal after discount.
+ * @param settings - The rates to apply.
+ * @returns {TaxBreakdown} - The service charge, taxable base, tax and the final total.
+ */
+export function calculateTaxes(amount: number, settings: TaxSettings): TaxBreakdown {
+  const taxRate = Number(settings.tax_rate) || 0;
+  const serviceChargeAmount = Math.round((amount * (Number(settings.service_charge_rate) || 0)) / 100);
+  const gross = amount + serviceChargeAmount;
+
+  if (settings.tax_inclusive) {
+    const taxAmount = Math.round((gross * taxRate) / (100 + taxRate));
+    return {
+      service_charge_amount: serviceChargeAmount,
+      tax_base: gross - taxAmount,
+      tax_amount: taxAmount,
+      total: gross,
+    };
+  }
+
+  const taxAmount = Math.round((gross * taxRate) / 100);
+  return {
+    service_charge_amount: serviceChargeAmount,
+    tax_base: gross,
+    tax_amount: taxAmount,
+    total: gross + taxAmount,
+  };
+}
@@ -0,0 +1,317 @@
+import express from "express";
+import { AuthenticatedRequest } from "../../middlewares";
+import { scopeToMerchant } from "../../middlewares/tenant";
+import { formatJoiError } from "../../utils";
+import {
+  addHoliday,
+  deleteHoliday,
+  getMerchantSettings,
+  listHolidays,
+  previewNextInvoiceNumber,
+  updateBusinessHours,
+  updateCapacitySettings,
+  updateInvoiceSettings,
+  updatePhotoSettings,
+  updatePickupSettings,
+  updateTaxSettings,
+  updateTrashSettings,
+} from "./controller";
+import {
+  businessHoursSchema,
+  capacitySettingsSchema,
+  holidaySchema,
+  invoiceSettingsSchema,
+  photoSettingsSchema,
+  pickupSettingsSchema,
+  taxSettingsSchema,
+  trashSettingsSchema,
+} from "./types";
+
+const router = express.Router();
+
+// GET /settings/tax
+router.get("/tax", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { tax_rate, tax_inclusive, service_charge_rate } = await getMerchantSettings(
+      req.userId as string
+    );
+    res.status(200).json({ tax_rate, tax_inclusive, service_charge_rate });
+  } catch (error) {
+    console.error("Error getting tax settings:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// PUT /settings/tax
+router.put("/tax", async (req: AuthenticatedRequest, res) => {
+  const { error, value } = taxSettingsSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({ message: formatJoiError(error) });
+  }
+
+  try {
+    const { tax_rate, tax_inclusive, service_charge_rate } = await updateTaxSettings(
+      req.userId as string,
+      value
+    );
+    res.status(200).json({
+      message: "Pengaturan pajak berhasil diperbarui.",
+      data: { tax_rate, tax_inclusive, service_charge_rate },
+    });
+  } catch (err) {
+    console.error("Error updating tax settings:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// GET /settings/trash
+router.get("/trash", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { trash_retention_days } = await getMerchantSettings(req.userId as string);
+    res.status(200).json({ trash_retention_days });
+  } catch (error) {
+    console.error("Error getting trash settings:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// PUT /settings/trash
+router.put("/trash", async (req: AuthenticatedRequest, res) => {
+  const { error, value } = trashSettingsSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({ message: formatJoiError(error) });
+  }
+
+  try {
+    const { trash_retention_days } = await updateTrashSettings(req.userId as string, value);
+    res.status(200).json({
+      message: "Pengaturan tempat sampah berhasil diperbarui.",
+      data: { trash_retention_days },
+    });
+  } catch (err) {
+    console.error("Error updating trash settings:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// GET /settings/photos
+router.get("/photos", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { photo_retention_days } = await getMerchantSettings(req.userId as string);
+    res.status(200).json({ photo_retention_days });
+  } catch (error) {
+    console.error("Error getting photo settings:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// PUT /settings/photos
+router.put("/photos", async (req: AuthenticatedRequest, res) => {
+  const { error, value } = photoSettingsSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({ message: formatJoiError(error) });
+  }
+
+  try {
+    const { photo_retention_days } = await updatePhotoSettings(req.userId as string, value);
+    res.status(200).json({
+      message: "Pengaturan foto berhasil diperbarui.",
+      data: { photo_retention_days },
+    });
+  } catch (err) {
+    console.error("Error updating photo settings:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// GET /settings/pickup
+router.get("/pickup", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { pickup_reminder_days, storage_fee_per_day, storage_fee_grace_days } =
+      await getMerchantSettings(req.userId as string);
+    res.status(200).json({ pickup_reminder_days, storage_fee_per_day, storage_fee_grace_days });
+  } catch (error) {
+    console.error("Error getting pickup settings:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// PUT /settings/pickup
+router.put("/pickup", async (req: AuthenticatedRequest, res) => {
+  const { error, value } = pickupSettingsSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({ message: formatJoiError(error) });
+  }
+
+  try {
+    const { pickup_reminder_days, storage_fee_per_day, storage_fee_grace_days } =
+      await updatePickupSettings(req.userId as string, value);
+    res.status(200).json({
+      message: "Pengaturan pengambilan berhasil diperbarui.",
+      data: { pickup_reminder_days, storage_fee_per_day, storage_fee_grace_days },
+    });
+  } catch (err) {
+    console.error("Error updating pickup settings:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// GET /settings/hours
+router.get("/hours", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { timezone, operating_hours, same_day_cutoff } = await getMerchantSettings(
+      req.userId as string
+    );
+    res.status(200).json({ timezone, operating_hours, same_day_cutoff });
+  } catch (error) {
+    console.error("Error getting business hours:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// PUT /settings/hours
+router.put("/hours", async (req: AuthenticatedRequest, res) => {
+  const { error, value } = businessHoursSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({ message: formatJoiError(error) });
+  }
+
+  try {
+    const { timezone, operating_hours, same_day_cutoff } = await updateBusinessHours(
+      req.userId as string,
+      value
+    );
+    res.status(200).json({
+      message: "Jam operasional berhasil diperbarui.",
+      data: { timezone, operating_hours, same_day_cutoff },
+    });
+  } catch (err) {
+    console.error("Error updating business hours:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// GET /settings/capacity
+router.get("/capacity", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { daily_capacity, capacity_enforcement } = await getMerchantSettings(req.userId as string);
+    res.status(200).json({ daily_capacity, capacity_enforcement });
+  } catch (error) {
+    console.error("Error getting capacity settings:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// PUT /settings/capacity
+router.put("/capacity", async (req: AuthenticatedRequest, res) => {
+  const { error, value } = capacitySettingsSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({ message: formatJoiError(error) });
+  }
+
+  try {
+    const { daily_capacity, capacity_enforcement } = await updateCapacitySettings(
+      req.userId as string,
+      value
+    );
+    res.status(200).json({
+      message: "Kapasitas harian berhasil diperbarui.",
+      data: { daily_capacity, capacity_enforcement },
+    });
+  } catch (err) {
+    console.error("Error updating capacity settings:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// GET /settings/invoice
+router.get("/invoice", async (req: AuthenticatedRequest, res) => {
+  try {
+    const { invoice_prefix, invoice_date_pattern, invoice_padding, invoice_reset } =
+      await getMerchantSettings(req.userId as string);
+    const next_invoice = await previewNextInvoiceNumber(req.userId as string);
+    res.status(200).json({
+      invoice_prefix,
+      invoice_date_pattern,
+      invoice_padding,
+      invoice_reset,
+      next_invoice,
+    });
+  } catch (error) {
+    console.error("Error getting invoice settings:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// PUT /settings/invoice
+router.put("/invoice", async (req: AuthenticatedRequest, res) => {
+  const { error, value } = invoiceSettingsSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({ message: formatJoiError(error) });
+  }
+
+  try {
+    const { invoice_prefix, invoice_date_pattern, invoice_padding, invoice_reset } =
+      await updateInvoiceSettings(req.userId as string, value);
+    const next_invoice = await previewNextInvoiceNumber(req.userId as string);
+    res.status(200).json({
+      message: "Format nomor invoice berhasil diperbarui.",
+      data: { invoice_prefix, invoice_date_pattern, invoice_padding, invoice_reset, next_invoice },
+    });
+  } catch (err) {
+    console.error("Error updating invoice settings:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// GET /settings/holidays?year=
+router.get("/holidays", async (req: AuthenticatedRequest, res) => {
+  const year = req.query.year ? parseInt(req.query.year as string, 10) : undefined;
+  if (year !== undefined && isNaN(year)) {
+    return res.status(400).json({ message: "Tahun tidak valid." });
+  }
+
+  try {
+    const holidays = await listHolidays(req.userId as string, year);
+    res.status(200).json(holidays);
+  } catch (error) {
+    console.error("Error listing holidays:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// POST /settings/holidays
+router.post("/holidays", async (req: AuthenticatedRequest, res) => {
+  const { error, value } = holidaySchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({ message: formatJoiError(error) });
+  }
+
+  try {
+    const holiday = await addHoliday(req.userId as string, value);
+    res.status(201).json({
+      message: "Hari libur berhasil disimpan.",
+      data: holiday,
+    });
+  } catch (err) {
+    console.error("Error adding holiday:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// DELETE /settings/holidays/:id
+router.delete("/holidays/:id", scopeToMerchant("holiday"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await deleteHoliday(req.params.id, req.userId as string);
+    if (!deleted) {
+      return res.status(404).json({ message: "Hari libur tidak ditemukan." });
+    }
+
+    res.status(200).json({ message: "Hari libur berhasil dihapus." });
+  } catch (err) {
+    console.error("Error deleting holiday:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+export default router;
@@ -0,0 +1,250 @@
+const Joi = require("joi");
+
+export interface TaxSettings {
+  tax_rate: number;
+  tax_inclusive: boolean;
+  service_charge_rate: number;
+}
+
+export interface TrashSettings {
+  trash_retention_days: number;
+}
+
+export interface PhotoSettings {
+  photo_retention_days: number;
+}
+
+export interface PickupSettings {
+  pickup_reminder_days: number[];
+  storage_fee_per_day: number;
+  storage_fee_grace_days: number;
+}
+
+// Indonesian time zones; none of them observe daylight saving time
+export type MerchantTimezone = "Asia/Jakarta" | "Asia/Makassar" | "Asia/Jayapura";
+
+// Opening and closing time of one weekday in HH:mm, or null when the outlet is closed
+export type OpeningHours = { open: string; close: string } | null;
+
+export interface BusinessHoursSettings {
+  timezone: MerchantTimezone;
+  // Seven entries starting on Sunday; null means open around the clock every day
+  operating_hours: OpeningHours[] | null;
+  // Orders received after this time start being processed on the next business day
+  same_day_cutoff: string | null;
+}
+
+export type CapacityEnforcement = "warn" | "reject";
+
+export interface CapacitySettings {
+  // Maximum quantity due per day for each service unit, e.g. { KG: 120, PCS: 40 }
+  daily_capacity: Record<string, number>;
+  capacity_enforcement: CapacityEnforcement;
+}
+
+export const INVOICE_DATE_PATTERNS = ["DDMMYYYY", "YYYYMMDD", "YYMMDD", "YYYYMM", "YYMM", "YYYY", "YY"] as const;
+
+export type InvoiceDatePattern = (typeof INVOICE_DATE_PATTERNS)[number];
+
+export type InvoiceReset = "never" | "yearly" | "monthly";
+
+export interface InvoiceSettings {
+  // Null keeps the original INV-{order}{DDMMYYYY}{sequence} format
+  invoice_prefix: string | null;
+  invoice_date_pattern: InvoiceDatePattern | null;
+  invoice_padding: number;
+  invoice_reset: InvoiceReset;
+}
+
+export interface MerchantHoliday {
+  id: string;
+  merchant_id: string;
+  date: string;
+  name: string;
+  created_at: string;
+}
+
+export interface BusinessCalendar extends BusinessHoursSettings {
+  holidays: string[];
+}
+
+export interface MerchantSettings
+  extends TaxSettings,
+    TrashSettings,
+    PhotoSettings,
+    PickupSettings,
+    BusinessHoursSettings,
+    CapacitySettings,
+    InvoiceSettings {
+  merchant_id: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface TaxBreakdown {
+  service_charge_amount: number;
+  tax_base: number;
+  tax_amount: number;
+  total: number;
+}
+
+export const taxSettingsSchema = Joi.object({
+  tax_rate: Joi.number().min(0).max(100).required().messages({
+    'number.base': 'Tarif pajak harus berupa angka',
+    'number.min': 'Tarif pajak tidak boleh kurang dari 0',
+    'number.max': 'Tarif pajak tidak boleh lebih dari 100',
+    'any.required': 'Tarif pajak wajib diisi',
+  }),
+  tax_inclusive: Joi.boolean().required().messages({
+    'boolean.base': 'Jenis pajak tidak valid',
+    'any.required': 'Jenis pajak wajib diisi',
+  }),
+  service_charge_rate: Joi.number().min(0).max(100).default(0).messages({
+    'number.base': 'Biaya layanan harus berupa angka',
+    'number.min': 'Biaya layanan tidak boleh kurang dari 0',
+    'number.max': 'Biaya layanan tidak boleh lebih dari 100',
+  }),
+});
+
+export const trashSettingsSchema = Joi.object({
+  trash_retention_days: Joi.number().integer().min(1).max(365).required().messages({
+    'number.base': 'Masa simpan harus berupa angka',
+    'number.integer': 'Masa simpan harus berupa bilangan bulat',
+    'number.min': 'Masa simpan minimal 1 hari',
+    'number.max': 'Masa simpan maksimal 365 hari',
+    'any.required': 'Masa simpan wajib diisi',
+  }),
+});
+
+export const photoSettingsSchema = Joi.object({
+  photo_retention_days: Joi.number().integer().min(7).max(730).required().messages({
+    'number.base': 'Masa simpan foto harus berupa angka',
+    'number.integer': 'Masa simpan foto harus berupa bilangan bulat',
+    'number.min': 'Masa simpan foto minimal 7 hari',
+    'number.max': 'Masa simpan foto maksimal 730 hari',
+    'any.required': 'Masa simpan foto wajib diisi',
+  }),
+});
+
+export const pickupSettingsSchema = Joi.object({
+  pickup_reminder_days: Joi.array()
+    .items(Joi.number().integer().min(1).max(365))
+    .unique()
+    .max(10)
+    .required()
+    .messages({
+      'array.base': 'Jadwal pengingat harus berupa array',
+      'array.unique': 'Hari pengingat tidak boleh sama',
+      'array.max': 'Jadwal pengingat maksimal 10 hari',
+      'number.base': 'Hari pengingat harus berupa angka',
+      'number.integer': 'Hari pengingat harus berupa bilangan bulat',
+      'number.min': 'Hari pengingat minimal 1',
+      'number.max': 'Hari pengingat maksimal 365',
+      'any.required': 'Jadwal pengingat wajib diisi',
+    }),
+  storage_fee_per_day: Joi.number().integer().min(0).default(0).messages({
+    'number.base': 'Biaya penyimpanan harus berupa angka',
+    'number.integer': 'Biaya penyimpanan harus berupa bilangan bulat',
+    'number.min': 'Biaya penyimpanan tidak boleh kurang dari 0',
+  }),
+  storage_fee_grace_days: Joi.number().integer().min(0).max(365).default(7).messages({
+    'number.base': 'Masa bebas biaya harus berupa angka',
+    'number.integer': 'Masa bebas biaya harus berupa bilangan bulat',
+    'number.min': 'Masa bebas biaya tidak boleh kurang dari 0',
+    'number.max': 'Masa bebas biaya maksimal 365 hari',
+  }),
+});
+
+const TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+const openingHoursSchema = Joi.object({
+  open: Joi.string().pattern(TIME_PATTERN).required(),
+  close: Joi.string().pattern(TIME_PATTERN).required(),
+})
+  .custom((value: { open: string; close: string }, helpers: any) => {
+    if (value.close <= value.open) {
+      return helpers.error('any.invalid');
+    }
+    return value;
+  })
+  .allow(null)
+  .messages({
+    'string.pattern.base': 'Format jam harus HH:mm',
+    'any.required': 'Jam buka dan jam tutup wajib diisi',
+    'any.invalid': 'Jam tutup harus setelah jam buka',
+  });
+
+export const businessHoursSchema = Joi.object({
+  timezone: Joi.string().valid("Asia/Jakarta", "Asia/Makassar", "Asia/Jayapura").default("Asia/Jakarta").messages({
+    'any.only': 'Zona waktu harus WIB, WITA atau WIT',
+  }),
+  operating_hours: Joi.array().items(openingHoursSchema).length(7).allow(null).required().messages({
+    'array.base': 'Jam operasional harus berupa array',
+    'array.length': 'Jam operasional harus berisi 7 hari, dimulai dari Minggu',
+    'any.required': 'Jam operasional wajib diisi',
+  }),
+  same_day_cutoff: Joi.string().pattern(TIME_PATTERN).allow(null).default(null).messages({
+    'string.pattern.base': 'Format batas waktu harus HH:mm',
+  }),
+});
+
+export const holidaySchema = Joi.object({
+  date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required().messages({
+    'string.pattern.base': 'Format tanggal harus YYYY-MM-DD',
+    'any.required': 'Tanggal wajib diisi',
+  }),
+  name: Joi.string().max(100).required().messages({
+    'string.empty': 'Nama hari libur wajib diisi',
+    'string.max': 'Nama hari libur maksimal 100 karakter',
+    'any.required': 'Nama hari libur wajib diisi',
+  }),
+});
+
+export const capacitySettingsSchema = Joi.object({
+  daily_capacity: Joi.object()
+    .pattern(Joi.string().trim().min(1).max(20), Joi.number().min(0))
+    .required()
+    .messages({
+      'object.base': 'Kapasitas harian harus berupa objek satuan dan jumlah',
+      'number.base': 'Kapasitas harus berupa angka',
+      'number.min': 'Kapasitas tidak boleh kurang dari 0',
+      'any.required': 'Kapasitas harian wajib diisi',
+    }),
+  capacity_enforcement: Joi.string().valid("warn", "reject").default("warn").messages({
+    'any.only': 'Penanganan kapasitas harus warn atau reject',
+  }),
+});
+
+export const invoiceSettingsSchema = Joi.object({
+  invoice_prefix: Joi.string().pattern(/^[A-Za-z0-9]{1,10}$/).required().messages({
+    'string.pattern.base': 'Prefix hanya boleh huruf dan angka, maksimal 10 karakter',
+    'string.empty': 'Prefix wajib diisi',
+    'any.required': 'Prefix wajib diisi',
+  }),
+  invoice_date_pattern: Joi.string().valid(...INVOICE_DATE_PATTERNS).allow(null).default(null).messages({
+    'any.only': `Pola tanggal harus salah satu dari ${INVOICE_DATE_PATTERNS.join(", ")}`,
+  }),
+  invoice_padding: Joi.number().integer().min(1).max(10).default(4).messages({
+    'number.base': 'Jumlah digit harus berupa angka',
+    'number.integer': 'Jumlah digit harus berupa bilangan bulat',
+    'number.min': 'Jumlah digit minimal 1',
+    'number.max': 'Jumlah digit maksimal 10',
+  }),
+  invoice_reset: Joi.string().valid("never", "yearly", "monthly").default("never").messages({
+    'any.only': 'Periode reset harus never, yearly atau monthly',
+  }),
+})
+  // A counter that restarts must be paired with a date that tells the periods apart
+  .custom((value: InvoiceSettings, helpers: any) => {
+    const pattern = value.invoice_date_pattern || "";
+    if (value.invoice_reset === "yearly" && !pattern.includes("YY")) {
+      return helpers.error('any.invalid');
+    }
+    if (value.invoice_reset === "monthly" && !(pattern.includes("YY") && pattern.includes("MM"))) {
+      return helpers.error('any.invalid');
+    }
+    return value;
+  })
+  .messages({
+    'any.invalid': 'Pola tanggal harus memuat tahun untuk reset tahunan, atau tahun dan bulan untuk reset bulanan',
+  });
@@ -0,0 +1,275 @@
+import { getClient, withUnitOfWork } from "../../database/unitOfWork";
+import { getCustomerById } from "../customer/controller";
+import { getDiscountById } from "../discount/controller";
+import { calculateServicePrice, getServiceDurationDetail } from "../services/controller";
+import { addTransaction, cancelTransaction, updateTransaction } from "../transaction/controller";
+import {
+  OfflineTransaction,
+  SyncChanges,
+  SyncConflict,
+  SyncCustomer,
+  SyncDeletion,
+  SyncDiscount,
+  SyncDuration,
+  SyncResult,
+  SyncService,
+  SYNC_CURSOR_OVERLAP_SECONDS,
+} from "./types";
+
+/**
+ * Save transactions created on an offline device. Every transaction keeps the ID and
+ * creation time chosen by the device and gets its invoice number from the server.
+ * Each one is saved in its own unit of work, so a conflict only skips that record.
+ * Uploading the same transaction again reports it as a duplicate with its invoice.
+ * @param merchantId - The ID of the merchant.
+ * @param transactions - The transactions recorded offline.
+ * @returns {Promise<SyncResult[]>} - The outcome of every transaction, in the order received.
+ */
+export async function syncTransactions(
+  merchantId: string,
+  transactions: OfflineTransaction[]
+): Promise<SyncResult[]> {
+  const results: SyncResult[] = [];
+
+  for (const record of transactions) {
+    try {
+      const existing = await findSyncedTransaction(record.id);
+      if (existing) {
+        results.push(
+          existing.merchant_id === merchantId
+            ? { id: record.id, status: "duplicate", invoice: existing.invoice_id }
+            : {
+                id: record.id,
+                status: "conflict",
+                conflicts: [{ code: "id_taken", message: "ID transaksi sudah dipakai" }],
+              }
+        );
+        continue;
+      }
+
+      const conflicts = await findConflicts(merchantId, record);
+      if (conflicts.length > 0) {
+        results.push({ id: record.id, status: "conflict", conflicts });
+        continue;
+      }
+
+      const invoice = await withUnitOfWork(async () => {
+        const created = await addTransaction(
+          {
+            customer: record.customer,
+            status: "Diproses",
+            note: record.note,
+            discount_id: record.discount_id || undefined,
+            items: record.items,
+          },
+          merchantId,
+          { id: record.id, createdAt: new Date(record.created_at) }
+        );
+        const invoiceId: string = created.transaction.invoice;
+
+        // Orders that moved on while offline take the same steps as online ones, so they
+        // get their timestamps, status log entries and, when cancelled, a cancelled payment.
+        // The timestamps are the device's, so reports count the order when it happened.
+        const changedAt = record.status_changed_at ? new Date(record.status_changed_at) : undefined;
+        if (record.status === "Dibatalkan") {
+          await cancelTransaction(invoiceId, record.cancel_reason as string, merchantId, changedAt);
+        } else if (record.status !== "Diproses") {
+          await updateTransaction(record.status, "", invoiceId, merchantId, changedAt);
+        }
+        return invoiceId;
+      });
+      results.push({ id: record.id, status: "created", invoice });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith("Kapasitas harian")) {
+        results.push({
+          id: record.id,
+          status: "conflict",
+          conflicts: [{ code: "capacity_full", message: error.message }],
+        });
+        continue;
+      }
+      console.error(`Error syncing transaction ${record.id}:`, error);
+      results.push({ id: record.id, status: "error", message: "Transaksi gagal disimpan" });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Compare an offline transaction with the current data of the merchant: the customer,
+ * services and discount must still exist, and the prices the device charged must match
+ * unless the device accepts the server's prices.
+ */
+async function findConflicts(
+  merchantId: string,
+  record: OfflineTransaction
+): Promise<SyncConflict[]> {
+  const conflicts: SyncConflict[] = [];
+
+  const customer = await getCustomerById(record.customer, merchantId);
+  if (!customer) {
+    conflicts.push({ code: "customer_deleted", message: "Pelanggan sudah dihapus" });
+  }
+
+  if (record.discount_id) {
+    const discount = await getDiscountById(record.discount_id, merchantId);
+    if (!discount || !discount.is_active) {
+      conflicts.push({ code: "discount_unavailable", message: "Diskon sudah tidak tersedia" });
+    }
+  }
+
+  for (const [index, item] of record.items.entries()) {
+    const serviceDetail = await getServiceDurationDetail(item.service, item.duration, merchantId);
+    if (!serviceDetail) {
+      conflicts.push({
+        code: "service_deleted",
+        message: "Layanan atau durasi sudah dihapus",
+        item_index: index,
+      });
+      continue;
+    }
+
+    if (item.price === undefined || record.accept_server_prices) {
+      continue;
+    }
+    const { price } = calculateServicePrice(serviceDetail, item.qty);
+    if (Number(price) !== Number(item.price)) {
+      conflicts.push({
+        code: "price_changed",
+        message: `Harga ${serviceDetail.name} sudah berubah`,
+        item_index: index,
+        client_price: Number(item.price),
+        server_price: Number(price),
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Look up a transaction by the ID a device gave it, including deleted ones.
+ */
+async function findSyncedTransaction(
+  id: string
+): Promise<{ merchant_id: string; invoice_id: string } | null> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      SELECT t.merchant_id, p.invoice_id
+      FROM transaction t
+      LEFT JOIN payment p ON p.transaction_id = t.id
+      WHERE t.id = $1
+      `,
+      [id]
+    );
+    return rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Retrieve the customers, services with their prices, durations and discounts that
+ * changed after `since`, together with the records deleted since then. Without `since`
+ * everything is returned. Pass the returned `server_time` as `since` on the next call.
+ * It trails the current time by SYNC_CURSOR_OVERLAP_SECONDS so writes that were still
+ * uncommitted are picked up next time; records changed in that window are sent again,
+ * and devices store them by ID.
+ * @param merchantId - The ID of the merchant.
+ * @param since - The `server_time` of the previous sync.
+ * @returns {Promise<SyncChanges>} - The changed and deleted records.
+ */
+export async function getSyncChanges(merchantId: string, since: Date | null): Promise<SyncChanges> {
+  const client = await getClient();
+  try {
+    const { rows: timeRows } = await client.query(
+      `SELECT NOW() - make_interval(secs => $1) AS server_time`,
+      [SYNC_CURSOR_OVERLAP_SECONDS]
+    );
+    const params = [merchantId, since];
+
+    const [customers, services, durations, discounts, deleted] = await Promise.all([
+      client.query<SyncCustomer>(
+        `
+        SELECT id, name, address, phone_number, email, gender, created_at, updated_at
+        FROM customer
+        WHERE merchant_id = $1 AND ($2::timestamptz IS NULL OR updated_at > $2)
+        ORDER BY updated_at
+        `,
+        params
+      ),
+      client.query<SyncService>(
+        `
+        SELECT
+          s.id,
+          s.name,
+          s.unit,
+          s.created_at,
+          s.updated_at,
+          COALESCE(
+            (
+              SELECT json_agg(
+                json_build_object(
+                  'duration', sd.duration,
+                  'price', sd.price,
+                  'min_qty', sd.min_qty,
+                  'min_charge', sd.min_charge,
+                  'price_tiers', sd.price_tiers
+                )
+              )
+              FROM service_duration sd
+              WHERE sd.service = s.id
+            ),
+            '[]'::json
+          ) AS prices
+        FROM service s
+        WHERE s.merchant_id = $1 AND ($2::timestamptz IS NULL OR s.updated_at > $2)
+        ORDER BY s.updated_at
+        `,
+        params
+      ),
+      client.query<SyncDuration>(
+        `
+        SELECT id, name, duration, type, created_at, updated_at
+        FROM duration
+        WHERE merchant_id = $1 AND ($2::timestamptz IS NULL OR updated_at > $2)
+        ORDER BY updated_at
+        `,
+        params
+      ),
+      client.query<SyncDiscount>(
+        `
+        SELECT id, name, type, value::double precision AS value, COALESCE(description, '') AS description,
+               is_active, created_at, updated_at
+        FROM discounts
+        WHERE merchant_id = $1 AND ($2::timestamptz IS NULL OR updated_at > $2)
+        ORDER BY updated_at
+        `,
+        params
+      ),
+      client.query<SyncDeletion>(
+        `
+        SELECT entity, entity_id AS id, deleted_at
+        FROM sync_deletion
+        WHERE merchant_id = $1 AND $2::timestamptz IS NOT NULL AND deleted_at > $2
+        ORDER BY deleted_at
+        `,
+        params
+      ),
+    ]);
+
+    return {
+      server_time: timeRows[0].server_time,
+      customers: customers.rows,
+      services: services.rows,
+      durations: durations.rows,
+      discounts: discounts.rows,
+      deleted: deleted.rows,
+    };
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,46 @@
+import express from "express";
+import { AuthenticatedRequest } from "../../middlewares";
+import { formatJoiError } from "../../utils";
+import { getSyncChanges, syncTransactions } from "./controller";
+import { syncTransactionsSchema } from "./types";
+
+const router = express.Router();
+
+// POST /sync/transactions
+router.post("/transactions", async (req: AuthenticatedRequest, res) => {
+  const { error, value } = syncTransactionsSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    return res.status(400).json({ message: formatJoiError(error) });
+  }
+
+  try {
+    const results = await syncTransactions(req.userId as string, value.transactions);
+    res.status(200).json({
+      message: "Sinkronisasi transaksi selesai.",
+      created: results.filter((result) => result.status === "created").length,
+      conflicts: results.filter((result) => result.status === "conflict").length,
+      results,
+    });
+  } catch (err) {
+    console.error("Error syncing transactions:", err);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+// GET /sync/changes?since=
+router.get("/changes", async (req: AuthenticatedRequest, res) => {
+  const since = req.query.since ? new Date(req.query.since as string) : null;
+  if (since && isNaN(since.getTime())) {
+    return res.status(400).json({ message: "Format tanggal tidak valid." });
+  }
+
+  try {
+    const changes = await getSyncChanges(req.userId as string, since);
+    res.status(200).json(changes);
+  } catch (error) {
+    console.error("Error getting sync changes:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+export default router;
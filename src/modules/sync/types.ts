@@ -0,0 +1,159 @@
+const Joi = require("joi");
+import { Customer } from "../customer/types";
+import { Discount } from "../discount/types";
+import { Duration } from "../duration/types";
+import { Service, ServicePricing } from "../services/types";
+import { NewTransactionItem } from "../transaction/types";
+
+// Largest number of offline transactions accepted in one upload
+export const MAX_SYNC_BATCH = 100;
+
+// How far the sync cursor trails the clock. Rows carry the start time of the transaction
+// that wrote them, so a write that commits after a sync may be older than its cursor.
+export const SYNC_CURSOR_OVERLAP_SECONDS = 300;
+
+export type SyncConflictCode =
+  | "customer_deleted"
+  | "service_deleted"
+  | "price_changed"
+  | "discount_unavailable"
+  | "capacity_full"
+  | "id_taken";
+
+export interface SyncConflict {
+  code: SyncConflictCode;
+  message: string;
+  item_index?: number;
+  client_price?: number;
+  server_price?: number;
+}
+
+export interface OfflineTransactionItem extends NewTransactionItem {
+  price?: number; // Unit price the device charged, compared with the current price
+}
+
+export interface OfflineTransaction {
+  id: string;
+  created_at: Date;
+  customer: string;
+  status: "Diproses" | "Selesai" | "Siap Diambil" | "Dibatalkan";
+  cancel_reason?: string; // Required when the order was cancelled on the device
+  status_changed_at?: Date; // When the device moved the order to its status, required unless "Diproses"
+  note?: string;
+  discount_id?: string | null;
+  accept_server_prices?: boolean;
+  items: OfflineTransactionItem[];
+}
+
+export interface SyncResult {
+  id: string;
+  status: "created" | "duplicate" | "conflict" | "error";
+  invoice?: string;
+  conflicts?: SyncConflict[];
+  message?: string;
+}
+
+interface SyncTimestamps {
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type SyncCustomer = Customer & SyncTimestamps;
+
+export type SyncDuration = Duration & SyncTimestamps;
+
+export type SyncDiscount = Omit<Discount, "merchant_id" | "created_at" | "updated_at"> & SyncTimestamps;
+
+// Price of a service for one duration, keyed by the duration ID
+export interface SyncServicePrice extends ServicePricing {
+  duration: string;
+}
+
+export interface SyncService extends Omit<Service, "durations">, SyncTimestamps {
+  prices: SyncServicePrice[];
+}
+
+export interface SyncDeletion {
+  entity: string;
+  id: string;
+  deleted_at: Date;
+}
+
+export interface SyncChanges {
+  server_time: Date;
+  customers: SyncCustomer[];
+  services: SyncService[];
+  durations: SyncDuration[];
+  discounts: SyncDiscount[];
+  deleted: SyncDeletion[];
+}
+
+const garmentSchema = Joi.object({
+  type: Joi.string().required(),
+  color: Joi.string().allow('', null).optional(),
+  brand: Joi.string().allow('', null).optional(),
+  notes: Joi.string().allow('', null).optional(),
+});
+
+export const syncTransactionsSchema = Joi.object({
+  transactions: Joi.array()
+    .items(
+      Joi.object({
+        id: Joi.string().uuid().required().messages({
+          'string.guid': 'ID transaksi harus berupa UUID',
+          'any.required': 'ID transaksi wajib diisi',
+        }),
+        created_at: Joi.date().iso().max('now').required().messages({
+          'date.base': 'Waktu transaksi tidak valid',
+          'date.max': 'Waktu transaksi tidak boleh di masa depan',
+          'any.required': 'Waktu transaksi wajib diisi',
+        }),
+        customer: Joi.string().uuid().required(),
+        note: Joi.string().allow('').optional(),
+        status: Joi.string().valid("Diproses", "Selesai", "Siap Diambil", "Dibatalkan").required(),
+        cancel_reason: Joi.string().trim().when('status', {
+          is: 'Dibatalkan',
+          then: Joi.required(),
+          otherwise: Joi.forbidden(),
+        }).messages({
+          'string.empty': 'Alasan pembatalan wajib diisi',
+          'any.required': 'Alasan pembatalan wajib diisi',
+          'any.unknown': 'Alasan pembatalan hanya untuk transaksi yang dibatalkan',
+        }),
+        status_changed_at: Joi.date().iso().min(Joi.ref('created_at')).max('now').when('status', {
+          is: 'Diproses',
+          then: Joi.forbidden(),
+          otherwise: Joi.required(),
+        }).messages({
+          'date.base': 'Waktu perubahan status tidak valid',
+          'date.min': 'Waktu perubahan status tidak boleh sebelum waktu transaksi',
+          'date.max': 'Waktu perubahan status tidak boleh di masa depan',
+          'any.required': 'Waktu perubahan status wajib diisi',
+          'any.unknown': 'Waktu perubahan status hanya untuk transaksi yang sudah diproses',
+        }),
+        discount_id: Joi.string().uuid().allow(null, '').optional(),
+        accept_server_prices: Joi.boolean().default(false),
+        items: Joi.array()
+          .items(
+            Joi.object({
+              service: Joi.string().uuid().required(),
+              duration: Joi.string().uuid().required(),
+              qty: Joi.number().positive().required(),
+              price: Joi.number().min(0).optional(),
+              garments: Joi.array().items(garmentSchema).optional(),
+              addons: Joi.array().items(Joi.object({ addon: Joi.string().uuid().required() })).optional(),
+            })
+          )
+          .min(1)
+          .required(),
+      })
+    )
+    .min(1)
+    .max(MAX_SYNC_BATCH)
+    .required()
+    .messages({
+      'array.min': 'Tidak ada transaksi untuk disinkronkan',
+      'array.max': `Maksimal ${MAX_SYNC_BATCH} transaksi per sinkronisasi`,
+      'any.required': 'Daftar transaksi wajib diisi',
+    }),
+});
@@ -0,0 +1,135 @@
+import jwt from "jsonwebtoken";
+import { getClient } from "../../database/unitOfWork";
+import { getInvoiceById } from "../transaction/controller";
+import { TrackedInvoice, TrackingLink, TrackingTokenPayload } from "./types";
+
+// Kept apart from the session secret so a tracking token can never pass as a login
+const TRACKING_SECRET =
+  process.env.TRACKING_TOKEN_SECRET || `${process.env.JWT_SECRET || "secret_key"}-tracking`;
+const TRACKING_TOKEN_TTL_DAYS = Number(process.env.TRACKING_TOKEN_TTL_DAYS || 30);
+
+/**
+ * Create a signed, expiring link a customer can use to follow their order.
+ * @param invoiceId - The invoice ID of the transaction.
+ * @param merchantId - The merchant owning the transaction.
+ * @returns {Promise<TrackingLink | null>} - The tracking link, or null if the transaction is not found.
+ */
+export async function createTrackingLink(
+  invoiceId: string,
+  merchantId?: string
+): Promise<TrackingLink | null> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      SELECT t.id
+      FROM transaction t
+      JOIN payment p ON p.transaction_id = t.id
+      WHERE p.invoice_id = $1 AND t.merchant_id = $2 AND t.deleted_at IS NULL
+      `,
+      [invoiceId, merchantId]
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const payload: TrackingTokenPayload = { tid: rows[0].id, purpose: "track" };
+    const token = jwt.sign(payload, TRACKING_SECRET, { expiresIn: `${TRACKING_TOKEN_TTL_DAYS}d` });
+    const { exp } = jwt.decode(token) as { exp: number };
+
+    return {
+      token,
+      url: `https://${process.env.APP_URL}/track/${token}`,
+      expires_at: new Date(exp * 1000),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Retrieve the customer-safe view of the invoice a tracking token points to.
+ * @param token - The tracking token from the link.
+ * @returns {Promise<TrackedInvoice | null>} - The invoice, or null if the token is invalid, expired
+ * or the transaction no longer exists.
+ */
+export async function getTrackedInvoice(token: string): Promise<TrackedInvoice | null> {
+  let payload: TrackingTokenPayload;
+  try {
+    payload = jwt.verify(token, TRACKING_SECRET) as TrackingTokenPayload;
+  } catch (error) {
+    return null;
+  }
+  if (payload.purpose !== "track" || !payload.tid) {
+    return null;
+  }
+
+  const client = await getClient();
+  let payment;
+  try {
+    const { rows } = await client.query(
+      `
+      SELECT p.invoice_id, p.status
+      FROM transaction t
+      JOIN payment p ON p.transaction_id = t.id
+      WHERE t.id = $1 AND t.deleted_at IS NULL
+      `,
+      [payload.tid]
+    );
+    payment = rows[0];
+  } finally {
+    client.release();
+  }
+  if (!payment) {
+    return null;
+  }
+
+  const invoice = await getInvoiceById(payment.invoice_id);
+  if (!invoice) {
+    return null;
+  }
+
+  const { merchant, customer, transaction } = invoice;
+  return {
+    invoice: payment.invoice_id,
+    merchant: {
+      name: merchant.name,
+      logo: merchant.logo,
+      address: merchant.address,
+      phone_number: merchant.phone_number,
+    },
+    customer: {
+      name: customer.name,
+    },
+    transaction: {
+      status: transaction.status,
+      entry_date: transaction.entry_date,
+      ready_to_pickup_date: transaction.ready_to_pickup_date,
+      completed_date: transaction.completed_date,
+      cancelled_date: transaction.cancelled_date,
+      services: (transaction.services || []).map((service) => ({
+        service_name: service.service_name,
+        unit: service.unit,
+        quantity: service.quantity,
+        price: service.price,
+        total_price: service.total_price,
+        duration_name: service.duration_name,
+        estimated_date: service.estimated_date,
+        status: service.status,
+        picked_up_date: service.picked_up_date,
+        addons: (service.addons || []).map((addon) => ({
+          name: addon.name,
+          quantity: addon.quantity,
+          total_price: addon.total_price,
+        })),
+      })),
+      subtotal: transaction.subtotal,
+      discount_amount: transaction.discount_amount,
+      service_charge_amount: transaction.service_charge_amount,
+      tax_amount: transaction.tax_amount,
+      tax_inclusive: transaction.tax_inclusive,
+      total_price: transaction.total_price,
+      payment_status: payment.status,
+    },
+  };
+}
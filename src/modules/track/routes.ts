@@ -0,0 +1,24 @@
+import express, { Request, Response } from "express";
+import { getTrackedInvoice } from "./controller";
+
+const router = express.Router();
+
+// GET /track/:token
+router.get("/:token", async (req: Request, res: Response) => {
+  try {
+    const invoice = await getTrackedInvoice(req.params.token);
+    if (!invoice) {
+      return res.status(404).json({
+        status: "error",
+        message: "Tautan pelacakan tidak valid atau sudah kedaluwarsa",
+      });
+    }
+
+    res.status(200).json(invoice);
+  } catch (error) {
+    console.error("Error tracking transaction:", error);
+    res.status(500).json({ message: "Terjadi kesalahan pada server." });
+  }
+});
+
+export default router;
@@ -0,0 +1,54 @@
+import { TransactionItemStatus } from "../transaction/types";
+
+export interface TrackingLink {
+  token: string;
+  url: string;
+  expires_at: Date;
+}
+
+export interface TrackingTokenPayload {
+  tid: string;
+  purpose: "track";
+}
+
+interface TrackedService {
+  service_name: string;
+  unit: string;
+  quantity: number;
+  price: number;
+  total_price: number;
+  duration_name: string | null;
+  estimated_date: string | null;
+  status: TransactionItemStatus;
+  picked_up_date: string | null;
+  addons: Array<{ name: string; quantity: number; total_price: number }>;
+}
+
+// What a customer may see through a tracking link; no contact details or internal notes
+export interface TrackedInvoice {
+  invoice: string;
+  merchant: {
+    name: string;
+    logo: string;
+    address: string;
+    phone_number: string;
+  };
+  customer: {
+    name: string;
+  };
+  transaction: {
+    status: string;
+    entry_date: string;
+    ready_to_pickup_date: string | null;
+    completed_date: string | null;
+    cancelled_date: string | null;
+    services: TrackedService[];
+    subtotal: number;
+    discount_amount: number;
+    service_charge_amount: number;
+    tax_amount: number;
+    tax_inclusive: boolean;
+    total_price: number;
+    payment_status: string;
+  };
+}
@@ -1,17 +1,72 @@
+import { PoolClient } from "pg";
 import {
+  BoardColumn,
+  BulkStatusResult,
+  CapacityWarning,
+  DailyLoad,
+  DeletedTransaction,
   InvoiceDetails,
-  Transaction,
+  OverdueTransaction,
+  PickupReminderCandidate,
   TransactionData,
+  Garment,
+  GarmentInput,
+  GarmentLookup,
   TransactionDetails,
+  TransactionInput,
+  TransactionItemAddonInput,
+  TransactionItemDetail,
+  TransactionItemInput,
+  TransactionItemStatus,
+  TransactionPhoto,
+  TransactionPhotoInput,
   TransactionQuery,
+  TransactionStatusLog,
 } from "./types";
-import pool from "../../database/postgres";
-import { addPayment } from "../payments/controller";
+import { getClient, withUnitOfWork } from "../../database/unitOfWork";
+import supabase from "../../database/supabase";
+import { escapeLikePattern, normalizePhoneNumber } from "../../utils";
+import { addPayment, addPaymentAdjustment } from "../payments/controller";
 import { getCustomerById } from "../customer/controller";
-import { getDurationById } from "../duration/controller";
-import { getServiceDurationDetail } from "../services/controller";
-import { calculateDiscountAmount, getDiscountByIdOnly } from "../discount/controller";
+import { calculateEstimatedDate, getDurationById } from "../duration/controller";
+import { calculateServicePrice, getServiceDurationDetail } from "../services/controller";
+import { calculateDiscountAmount, getDiscountById } from "../discount/controller";
+import { calculateAddonPrice, getActiveAddonsByIds } from "../addon/controller";
+import {
+  calculateTaxes,
+  DEFAULT_PHOTO_RETENTION_DAYS,
+  DEFAULT_PICKUP_REMINDER_DAYS,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  formatInvoiceNumber,
+  getBusinessCalendar,
+  getInvoicePeriod,
+  getMerchantSettings,
+  getTimezoneOffset,
+} from "../settings/controller";
+import { BusinessCalendar, MerchantSettings } from "../settings/types";
+
+// Supabase storage bucket holding the intake and pickup condition photos
+const PHOTO_BUCKET = "condition_photos";
+
+// Latest due date of each transaction, and the earliest one among items still in process
+const ITEM_DUE_DATES = `
+  SELECT
+    transaction_id,
+    MAX(estimated_date) AS estimated_date,
+    MIN(estimated_date) FILTER (WHERE status = 'Diproses') AS pending_due_date
+  FROM transaction_item
+  GROUP BY transaction_id
+`;
 
+// An order is overdue while it is in process and one of its unfinished items passed its due date
+const IS_OVERDUE = `(t.status = 'Diproses' AND agg.pending_due_date < NOW())`;
+const MINUTES_LATE = `CASE WHEN ${IS_OVERDUE} THEN FLOOR(EXTRACT(EPOCH FROM NOW() - agg.pending_due_date) / 60)::int ELSE 0 END`;
+
+/**
+ * Retrieve the transactions of a merchant with optional filters and pagination.
+ * With `search` the results match invoice number prefixes, phone numbers, customer
+ * names (tolerating typos) and words in the note, and are ordered by relevance.
+ */
 export async function getTransactions(
   status: string | null = null,
   filter: string | null = null,
@@ -19,13 +74,15 @@ export async function getTransactions(
   date_to: string | null = null,
   merchant_id?: string,
   page: number = 1,
-  limit: number = 10
+  limit: number = 10,
+  search: string | null = null
 ) {
-  const client = await pool.connect();
+  const client = await getClient();
 
   try {
     let values: any[] = [];
     let conditions: string[] = ["t.deleted_at IS NULL"];
+    let rankColumn = "";
 
     let dateColumn = "t.created_at";
     let sortType = "DESC";
@@ -37,11 +94,16 @@ export async function getTransactions(
       dateColumn = "t.ready_to_pick_up_at";
     } else if (status === "Selesai") {
       dateColumn = "t.completed_at";
+    } else if (status === "Dibatalkan") {
+      dateColumn = "t.cancelled_at";
     }
 
     if (status) {
       conditions.push(`t.status = $${values.length + 1}`);
       values.push(status);
+    } else {
+      // Cancelled orders are only listed when explicitly requested
+      conditions.push("t.status IS DISTINCT FROM 'Dibatalkan'");
     }
 
     if (filter) {
@@ -49,7 +111,7 @@ export async function getTransactions(
         `(t.customer_name ILIKE '%' || $${values.length + 1} || '%' 
           OR p.invoice_id ILIKE '%' || $${values.length + 1} || '%')`
       );
-      values.push(filter);
+      values.push(escapeLikePattern(filter));
     }
 
     if (merchant_id) {
@@ -57,6 +119,43 @@ export async function getTransactions(
       values.push(merchant_id);
     }
 
+    if (search) {
+      const term = `$${values.length + 1}`;
+      const phone = `$${values.length + 2}`;
+      const prefix = `$${values.length + 3}`;
+      const phoneDigits = normalizePhoneNumber(search);
+      values.push(search, phoneDigits.length >= 4 ? phoneDigits : null, escapeLikePattern(search));
+
+      // One subquery per match kind, so each can use its own index from v16; ORing them
+      // across the transaction and payment tables makes Postgres scan both instead
+      conditions.push(`t.id IN (
+        SELECT transaction_id FROM payment WHERE UPPER(invoice_id) LIKE UPPER(${prefix}) || '%'
+        UNION
+        SELECT id FROM transaction
+        WHERE ${phone}::text IS NOT NULL AND normalize_phone(customer_phone_number) LIKE '%' || ${phone} || '%'
+        UNION
+        SELECT id FROM transaction WHERE ${term} <% customer_name
+        UNION
+        SELECT id FROM transaction WHERE to_tsvector('simple', COALESCE(note, '')) @@ plainto_tsquery('simple', ${term})
+      )`);
+      rankColumn = `,
+        GREATEST(
+          CASE
+            WHEN UPPER(p.invoice_id) = UPPER(${term}) THEN 1
+            WHEN UPPER(p.invoice_id) LIKE UPPER(${prefix}) || '%' THEN 0.9
+            ELSE 0
+          END,
+          CASE
+            WHEN ${phone}::text IS NULL THEN 0
+            WHEN normalize_phone(t.customer_phone_number) = ${phone} THEN 0.9
+            WHEN normalize_phone(t.customer_phone_number) LIKE '%' || ${phone} || '%' THEN 0.7
+            ELSE 0
+          END,
+          word_similarity(${term}, COALESCE(t.customer_name, '')),
+          ts_rank(to_tsvector('simple', COALESCE(t.note, '')), plainto_tsquery('simple', ${term}))
+        ) AS search_rank`;
+    }
+
     if (date_from && date_to) {
       conditions.push(
         `${dateColumn}::date BETWEEN $${values.length + 1} 
@@ -69,11 +168,7 @@ export async function getTransactions(
 
     const baseQuery = `
       FROM "transaction" t
-      LEFT JOIN (
-        SELECT transaction_id, MAX(estimated_date) AS estimated_date
-        FROM transaction_item
-        GROUP BY transaction_id
-      ) agg ON agg.transaction_id = t.id
+      LEFT JOIN (${ITEM_DUE_DATES}) agg ON agg.transaction_id = t.id
       LEFT JOIN payment p ON p.transaction_id = t.id
       WHERE ${conditions.join(" AND ")}
     `;
@@ -89,246 +184,1740 @@ export async function getTransactions(
         t.note,
         t.ready_to_pick_up_at,
         t.completed_at,
-        agg.estimated_date
+        t.cancelled_at,
+        t.cancel_reason,
+        agg.estimated_date,
+        COALESCE(${IS_OVERDUE}, false) AS is_overdue,
+        ${MINUTES_LATE} AS minutes_late${rankColumn}
       ${baseQuery}
-      ORDER BY ${dateColumn} ${sortType}
+      ORDER BY ${search ? "search_rank DESC, t.created_at DESC" : `${dateColumn} ${sortType}`}
       LIMIT $${values.length + 1}
       OFFSET $${values.length + 2}
     `;
 
     values.push(limit, offset);
 
-    const transactionsResult = await client.query(query, values);
+    const transactionsResult = await client.query(query, values);
+
+    const countQuery = `
+      SELECT COUNT(*) AS total_count
+      ${baseQuery}
+    `;
+
+    const countResult = await client.query(
+      countQuery,
+      values.slice(0, -2)
+    );
+
+    return {
+      transactions: transactionsResult.rows,
+      totalCount: parseInt(countResult.rows[0].total_count, 10),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Retrieve the in-process transactions of a merchant that passed their estimated date,
+ * the longest overdue first.
+ * @param {string} merchant_id - The ID of the merchant.
+ * @param {number} [page=1] - The page number for pagination.
+ * @param {number} [limit=10] - The number of transactions per page.
+ * @returns The overdue transactions with how many minutes late they are.
+ */
+export async function getOverdueTransactions(
+  merchant_id?: string,
+  page: number = 1,
+  limit: number = 10
+): Promise<{ transactions: OverdueTransaction[]; totalCount: number }> {
+  const client = await getClient();
+  try {
+    const baseQuery = `
+      FROM "transaction" t
+      JOIN (${ITEM_DUE_DATES}) agg ON agg.transaction_id = t.id
+      LEFT JOIN payment p ON p.transaction_id = t.id
+      WHERE t.merchant_id = $1
+        AND t.deleted_at IS NULL
+        AND ${IS_OVERDUE}
+    `;
+
+    const countResult = await client.query(
+      `SELECT COUNT(*) AS total_count ${baseQuery}`,
+      [merchant_id]
+    );
+
+    const offset = (page - 1) * limit;
+    const result = await client.query(
+      `
+      SELECT
+        t.id,
+        t.customer_name AS customer,
+        t.customer_phone_number,
+        p.invoice_id AS invoice,
+        p.status AS payment_status,
+        t.status,
+        t.created_at,
+        agg.pending_due_date AS estimated_date,
+        ${MINUTES_LATE} AS minutes_late
+      ${baseQuery}
+      ORDER BY agg.pending_due_date ASC
+      LIMIT $2 OFFSET $3
+      `,
+      [merchant_id, limit, offset]
+    );
+
+    return {
+      transactions: result.rows,
+      totalCount: parseInt(countResult.rows[0].total_count, 10),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Retrieve the merchants that currently have overdue transactions.
+ * @returns The merchants with their contact email and number of overdue orders.
+ */
+export async function getMerchantsWithOverdueTransactions(): Promise<
+  Array<{ merchant_id: string; name: string; email: string; overdue_count: number }>
+> {
+  const client = await getClient();
+  try {
+    const result = await client.query(
+      `
+      SELECT
+        t.merchant_id,
+        u.name,
+        u.email,
+        COUNT(*)::int AS overdue_count
+      FROM "transaction" t
+      JOIN (${ITEM_DUE_DATES}) agg ON agg.transaction_id = t.id
+      JOIN users u ON u.id = t.merchant_id
+      WHERE t.deleted_at IS NULL
+        AND ${IS_OVERDUE}
+        AND u.email IS NOT NULL
+      GROUP BY t.merchant_id, u.name, u.email
+      `
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Add a new transaction to the database.
+ * The transaction, its items, discount, taxes, invoice number and payment are created
+ * in one unit of work, so a failure at any step leaves nothing behind.
+ * Items that push a day over the merchant's capacity are returned as warnings, or
+ * reject the transaction when the merchant enforces its capacity.
+ * @param transaction - The transaction data to add.
+ * @param options - An ID and creation time chosen by an offline device, if any.
+ * @returns {Promise<Service>} - A promise that resolves to the newly created transaction.
+ */
+export async function addTransaction(
+  transaction: TransactionInput,
+  merchant_id?: string,
+  options: { id?: string; createdAt?: Date } = {}
+): Promise<any | null> {
+  return withUnitOfWork(async () => {
+    const client = await getClient();
+    try {
+      const { customer, status, items, note, discount_id } = transaction;
+      const customerDetail = await getCustomerById(customer, merchant_id);
+      if (!customerDetail) {
+        throw new Error("Pelanggan tidak ditemukan");
+      }
+
+      const query = `
+        INSERT INTO transaction (
+          customer_id, 
+          customer_name, 
+          customer_phone_number, 
+          customer_email, 
+          customer_address, 
+          status, 
+          merchant_id,
+          note,
+          id,
+          created_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, COALESCE($9, gen_random_uuid()), COALESCE($10, NOW()))
+        RETURNING id;
+      `;
+
+      const values = [
+        customerDetail?.id,
+        customerDetail?.name,
+        customerDetail?.phone_number,
+        customerDetail?.email,
+        customerDetail?.address,
+        status,
+        merchant_id,
+        note,
+        options.id || null,
+        options.createdAt || null,
+      ];
+      const result = await client.query(query, values);
+      const newTransactionId = result.rows?.[0]?.id;
+
+      // Insert service items
+      const transactionQueries: TransactionQuery[] = [];
+
+      const currentDate = options.createdAt || new Date();
+      const calendar = merchant_id ? await getBusinessCalendar(merchant_id, currentDate) : undefined;
+      const itemDetails: TransactionItemDetail[] = [];
+      for (const item of items || []) {
+        const itemDetail = await resolveTransactionItem(item, currentDate, merchant_id, calendar);
+        itemDetails.push(itemDetail);
+
+        transactionQueries.push({
+          text: `
+            INSERT INTO transaction_item (
+              transaction_id,
+              service_id,
+              service_name,
+              service_unit,
+              price,
+              qty,
+              duration_id,
+              duration_name,
+              duration_length,
+              duration_length_type,
+              estimated_date,
+              billed_qty,
+              total_price,
+              applied_tier
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+            RETURNING id;
+      `,
+          values: [newTransactionId, ...transactionItemValues(itemDetail)],
+        });
+      }
+
+      const settings = await getMerchantSettings(merchant_id as string);
+      const capacityWarnings = await checkCapacity(client, settings, itemDetails);
+      if (capacityWarnings.length > 0 && settings.capacity_enforcement === "reject") {
+        const [full] = capacityWarnings;
+        throw new Error(
+          `Kapasitas harian ${full.unit} pada ${full.date} penuh (${full.scheduled}/${full.capacity})`
+        );
+      }
+
+      for (const [index, query] of transactionQueries.entries()) {
+        const itemResult = await client.query(query.text, query.values);
+        const item = items?.[index];
+        if (item?.garments?.length) {
+          await insertGarments(client, itemResult.rows[0].id, newTransactionId, item.garments, merchant_id);
+        }
+        if (item?.addons?.length) {
+          await saveItemAddons(client, itemResult.rows[0].id, newTransactionId, item.qty, merchant_id, item.addons);
+        }
+      }
+
+      await cascadeStatusToItems(client, newTransactionId, status);
+      await recordStatusChange(
+        client,
+        newTransactionId,
+        null,
+        status,
+        note || null,
+        merchant_id,
+        options.createdAt
+      );
+
+      // Apply discount if provided
+      if (discount_id) {
+        const discountRecord = merchant_id ? await getDiscountById(discount_id, merchant_id) : null;
+        if (!discountRecord) {
+          throw new Error("Diskon tidak ditemukan");
+        }
+        if (discountRecord.is_active) {
+          await client.query(
+            `UPDATE transaction SET discount_id = $1 WHERE id = $2`,
+            [discount_id, newTransactionId]
+          );
+        }
+      }
+
+      // Snapshot the merchant's current tax settings onto the transaction
+      await client.query(
+        `UPDATE transaction SET tax_rate = $1, tax_inclusive = $2, service_charge_rate = $3 WHERE id = $4`,
+        [settings.tax_rate, settings.tax_inclusive, settings.service_charge_rate, newTransactionId]
+      );
+
+      const { total } = await recalculateTransactionTotals(client, newTransactionId);
+
+      // Generate Invoice ID
+      const invoiceId = await generateInvoiceId(newTransactionId, merchant_id);
+
+      // Create Payment
+      await addPayment(
+        {
+          status: "Belum Dibayar",
+          invoice_id: invoiceId,
+          total_amount_due: total,
+          transaction_id: newTransactionId,
+        },
+        merchant_id
+      );
+
+      const transactionDetail = await getTransactionById(invoiceId);
+      return {
+        transaction: transactionDetail,
+        capacity_warnings: capacityWarnings,
+      };
+    } finally {
+      client.release();
+    }
+  });
+}
+
+/**
+ * Compare the quantities of new items with the load already scheduled on their due
+ * dates, per unit the merchant set a capacity for. When the capacity is enforced the
+ * merchant's orders are serialized, so two cashiers cannot both take the last slot.
+ * @param client - The connection used by the surrounding operation.
+ * @param settings - The merchant's settings holding its capacity.
+ * @param items - The new items with their due dates.
+ * @returns {Promise<CapacityWarning[]>} - The days and units that would be over capacity.
+ */
+async function checkCapacity(
+  client: PoolClient,
+  settings: MerchantSettings,
+  items: TransactionItemDetail[]
+): Promise<CapacityWarning[]> {
+  const capacities = settings.daily_capacity || {};
+  const requested = new Map<string, { date: string; unit: string; qty: number }>();
+  for (const item of items) {
+    const unit = (item.service_unit || "").toUpperCase();
+    if (!item.estimated_date || capacities[unit] === undefined) {
+      continue;
+    }
+    const date = toLocalDate(item.estimated_date, settings);
+    const key = `${date}|${unit}`;
+    const entry = requested.get(key) || { date, unit, qty: 0 };
+    entry.qty += Number(item.qty);
+    requested.set(key, entry);
+  }
+  if (requested.size === 0) {
+    return [];
+  }
+
+  if (settings.capacity_enforcement === "reject") {
+    await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`capacity:${settings.merchant_id}`]);
+  }
+
+  const entries = [...requested.values()];
+  const { rows } = await client.query(
+    `
+    SELECT
+      TO_CHAR(ti.estimated_date AT TIME ZONE $2, 'YYYY-MM-DD') AS date,
+      UPPER(ti.service_unit) AS unit,
+      SUM(ti.qty)::double precision AS scheduled
+    FROM transaction_item ti
+    JOIN transaction t ON t.id = ti.transaction_id
+    WHERE t.merchant_id = $1
+      AND t.deleted_at IS NULL
+      AND t.status IS DISTINCT FROM 'Dibatalkan'
+      AND TO_CHAR(ti.estimated_date AT TIME ZONE $2, 'YYYY-MM-DD') = ANY($3::text[])
+      AND UPPER(ti.service_unit) = ANY($4::text[])
+    GROUP BY 1, 2
+    `,
+    [
+      settings.merchant_id,
+      settings.timezone,
+      entries.map((entry) => entry.date),
+      entries.map((entry) => entry.unit),
+    ]
+  );
+  const scheduled = new Map<string, number>(
+    rows.map((row) => [`${row.date}|${row.unit}`, Number(row.scheduled)])
+  );
+
+  return entries
+    .map((entry) => ({
+      date: entry.date,
+      unit: entry.unit,
+      capacity: Number(capacities[entry.unit]),
+      scheduled: scheduled.get(`${entry.date}|${entry.unit}`) || 0,
+      requested: entry.qty,
+    }))
+    .filter((warning) => warning.scheduled + warning.requested > warning.capacity)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Show how full each day between two dates is, per unit, against the merchant's capacity.
+ * Units without a capacity are listed when work in that unit is due on the day.
+ * @param merchantId - The ID of the merchant.
+ * @param from - The first day in YYYY-MM-DD format.
+ * @param to - The last day in YYYY-MM-DD format.
+ * @returns {Promise<DailyLoad[]>} - The load of every day in the range.
+ */
+export async function getCapacityOverview(
+  merchantId: string,
+  from: string,
+  to: string
+): Promise<DailyLoad[]> {
+  const settings = await getMerchantSettings(merchantId);
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      SELECT
+        TO_CHAR(ti.estimated_date AT TIME ZONE $2, 'YYYY-MM-DD') AS date,
+        UPPER(ti.service_unit) AS unit,
+        SUM(ti.qty)::double precision AS scheduled
+      FROM transaction_item ti
+      JOIN transaction t ON t.id = ti.transaction_id
+      WHERE t.merchant_id = $1
+        AND t.deleted_at IS NULL
+        AND t.status IS DISTINCT FROM 'Dibatalkan'
+        AND (ti.estimated_date AT TIME ZONE $2)::date BETWEEN $3::date AND $4::date
+      GROUP BY 1, 2
+      `,
+      [merchantId, settings.timezone, from, to]
+    );
+
+    const capacities = settings.daily_capacity || {};
+    const days: DailyLoad[] = [];
+    for (
+      let day = new Date(`${from}T00:00:00Z`);
+      day <= new Date(`${to}T00:00:00Z`);
+      day = new Date(day.getTime() + 24 * 60 * 60 * 1000)
+    ) {
+      const date = day.toISOString().slice(0, 10);
+      const loads = rows.filter((row) => row.date === date);
+      const units = new Set([...Object.keys(capacities), ...loads.map((row) => row.unit)]);
+
+      days.push({
+        date,
+        units: [...units].sort().map((unit) => {
+          const scheduled = Number(loads.find((row) => row.unit === unit)?.scheduled || 0);
+          const capacity = capacities[unit] !== undefined ? Number(capacities[unit]) : null;
+          return {
+            unit,
+            capacity,
+            scheduled,
+            remaining: capacity !== null ? capacity - scheduled : null,
+            utilization: capacity ? Math.round((scheduled / capacity) * 1000) / 10 : null,
+          };
+        }),
+      });
+    }
+
+    return days;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the merchant's local calendar date of a moment in YYYY-MM-DD format.
+ */
+function toLocalDate(date: Date, settings: MerchantSettings): string {
+  const offset = getTimezoneOffset(settings.timezone) * 60 * 1000;
+  return new Date(new Date(date).getTime() + offset).toISOString().slice(0, 10);
+}
+
+/**
+ * Look up the service price and duration of an item and work out when it should be finished.
+ * @param item - The item as submitted by the cashier.
+ * @param receivedAt - The moment the laundry was received.
+ * @param merchantId - The merchant the service must belong to.
+ * @param calendar - The merchant's business calendar used for the due date.
+ * @returns {Promise<TransactionItemDetail>} - The item snapshot to store on transaction_item.
+ */
+async function resolveTransactionItem(
+  item: TransactionItemInput,
+  receivedAt: Date,
+  merchantId?: string,
+  calendar?: BusinessCalendar
+): Promise<TransactionItemDetail> {
+  const serviceDetail = await getServiceDurationDetail(item.service, item.duration, merchantId);
+  if (!serviceDetail) {
+    throw new Error("Layanan atau durasi tidak ditemukan");
+  }
+
+  const durationDetail = await getDurationById(item.duration);
+  const pricing = calculateServicePrice(serviceDetail, item.qty);
+
+  return {
+    service_id: serviceDetail.id,
+    service_name: serviceDetail.name,
+    service_unit: serviceDetail.unit,
+    price: pricing.price,
+    qty: item.qty,
+    duration_id: durationDetail?.id,
+    duration_name: durationDetail?.name,
+    duration_length: durationDetail?.duration,
+    duration_length_type: durationDetail?.type,
+    estimated_date: calculateEstimatedDate(durationDetail, receivedAt, calendar),
+    billed_qty: pricing.billed_qty,
+    total_price: pricing.total_price,
+    applied_tier: pricing.applied_tier,
+  };
+}
+
+/**
+ * Order the item snapshot the same way as the transaction_item columns in insert and update queries.
+ */
+function transactionItemValues(item: TransactionItemDetail): any[] {
+  return [
+    item.service_id,
+    item.service_name,
+    item.service_unit,
+    item.price,
+    item.qty,
+    item.duration_id,
+    item.duration_name,
+    item.duration_length,
+    item.duration_length_type,
+    item.estimated_date,
+    item.billed_qty,
+    item.total_price,
+    item.applied_tier ? JSON.stringify(item.applied_tier) : null,
+  ];
+}
+
+/**
+ * Attach add-ons to a transaction item and keep its add-on total up to date.
+ * When `addons` is given the item's add-ons are replaced by it; per-unit add-ons
+ * are always re-priced to the item quantity.
+ *
+ * @param client - The connection used by the surrounding operation.
+ * @param itemId - The ID of the transaction item.
+ * @param transactionId - The ID of the transaction the item belongs to.
+ * @param itemQty - The quantity of the item.
+ * @param merchantId - The merchant owning the add-on catalog.
+ * @param addons - The add-ons the item should have, or undefined to keep the current ones.
+ */
+async function saveItemAddons(
+  client: PoolClient,
+  itemId: string,
+  transactionId: string,
+  itemQty: number,
+  merchantId?: string,
+  addons?: TransactionItemAddonInput[]
+): Promise<void> {
+  if (addons) {
+    await client.query(`DELETE FROM transaction_item_addon WHERE transaction_item_id = $1`, [itemId]);
+
+    const addonIds = [...new Set(addons.map((addon) => addon.addon))];
+    const catalog = addonIds.length ? await getActiveAddonsByIds(addonIds, merchantId as string) : [];
+    if (catalog.length !== addonIds.length) {
+      throw new Error("Add-on tidak ditemukan");
+    }
+
+    for (const { addon: addonId } of addons) {
+      const addon = catalog.find((entry) => entry.id === addonId)!;
+      const { qty, total_price } = calculateAddonPrice(addon, itemQty);
+      await client.query(
+        `
+        INSERT INTO transaction_item_addon (
+          transaction_item_id, transaction_id, addon_id, name, pricing_type, price, qty, total_price
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        `,
+        [itemId, transactionId, addon.id, addon.name, addon.pricing_type, addon.price, qty, total_price]
+      );
+    }
+  } else {
+    await client.query(
+      `
+      UPDATE transaction_item_addon
+      SET qty = $2, total_price = price * $2
+      WHERE transaction_item_id = $1 AND pricing_type = 'per_unit'
+      `,
+      [itemId, itemQty]
+    );
+  }
+
+  await client.query(
+    `
+    UPDATE transaction_item
+    SET addon_total = COALESCE((SELECT SUM(a.total_price) FROM transaction_item_addon a WHERE a.transaction_item_id = $1), 0)
+    WHERE id = $1
+    `,
+    [itemId]
+  );
+}
+
+/**
+ * Replace the items of an existing transaction and recalculate its payment.
+ * Items with an `id` are updated, items without one are added and
+ * existing items missing from the list are removed.
+ * Once the payment is settled ("Lunas") the edit is only allowed together with
+ * an adjustment note, and the price difference is recorded as a refund or charge.
+ *
+ * @param invoiceId - The invoice ID of the transaction to edit.
+ * @param items - The complete list of items the transaction should have.
+ * @param adjustmentNote - Reason for the refund/charge, required for settled payments.
+ * @param changedBy - The ID of the user performing the edit.
+ * @returns {Promise<TransactionDetails | null>} - The updated transaction, or null if not found.
+ */
+export async function updateTransactionItems(
+  invoiceId: string,
+  items: TransactionItemInput[],
+  adjustmentNote?: string | null,
+  changedBy?: string
+): Promise<TransactionDetails | null> {
+  return withUnitOfWork(async () => {
+    const client = await getClient();
+    try {
+      const transactionResult = await client.query(
+        `
+        SELECT
+          t.id,
+          t.created_at,
+          t.status,
+          t.merchant_id,
+          p.id AS payment_id,
+          p.status AS payment_status,
+          p.total_amount_due
+        FROM transaction t
+        JOIN payment p ON t.id = p.transaction_id
+        WHERE p.invoice_id = $1 AND t.deleted_at IS NULL
+        FOR UPDATE OF t, p
+        `,
+        [invoiceId]
+      );
+      if (transactionResult.rows.length === 0) {
+        return null;
+      }
+
+      const transaction = transactionResult.rows[0];
+      if (transaction.status === "Dibatalkan") {
+        throw new Error("Transaksi sudah dibatalkan");
+      }
+
+      const isPaid = transaction.payment_status === "Lunas";
+      if (isPaid && !adjustmentNote) {
+        throw new Error(
+          "Pembayaran sudah lunas, sertakan catatan pengembalian/penyesuaian untuk mengubah item"
+        );
+      }
+
+      const existingResult = await client.query(
+        `SELECT id, service_id, duration_id, qty, status FROM transaction_item WHERE transaction_id = $1`,
+        [transaction.id]
+      );
+      const existingItems = new Map<string, any>(
+        existingResult.rows.map((row) => [row.id, row])
+      );
+
+      const keptIds = items.filter((item) => item.id).map((item) => item.id);
+      for (const item of items) {
+        if (item.id && !existingItems.has(item.id)) {
+          throw new Error("Item transaksi tidak ditemukan");
+        }
+      }
+
+      // Items the customer already collected can no longer be changed or removed
+      const collectedItems = existingResult.rows.filter((row) => row.status === "Diambil");
+      for (const collected of collectedItems) {
+        const requested = items.find((item) => item.id === collected.id);
+        if (
+          !requested ||
+          requested.service !== collected.service_id ||
+          requested.duration !== collected.duration_id ||
+          Number(requested.qty) !== Number(collected.qty)
+        ) {
+          throw new Error("Item yang sudah diambil tidak dapat diubah");
+        }
+      }
+
+      const receivedAt = new Date(transaction.created_at);
+      const calendar = await getBusinessCalendar(transaction.merchant_id, receivedAt);
+      await client.query(
+        `DELETE FROM transaction_item WHERE transaction_id = $1 AND NOT (id = ANY($2::uuid[]))`,
+        [transaction.id, keptIds]
+      );
+
+      for (const item of items) {
+        if (item.id && existingItems.get(item.id).status === "Diambil") {
+          continue;
+        }
+
+        const itemDetail = await resolveTransactionItem(
+          item,
+          receivedAt,
+          transaction.merchant_id,
+          calendar
+        );
+        if (item.id) {
+          await client.query(
+            `
+            UPDATE transaction_item
+            SET
+              service_id = $1,
+              service_name = $2,
+              service_unit = $3,
+              price = $4,
+              qty = $5,
+              duration_id = $6,
+              duration_name = $7,
+              duration_length = $8,
+              duration_length_type = $9,
+              estimated_date = $10,
+              billed_qty = $11,
+              total_price = $12,
+              applied_tier = $13
+            WHERE id = $14
+            `,
+            [...transactionItemValues(itemDetail), item.id]
+          );
+          await saveItemAddons(client, item.id, transaction.id, item.qty, transaction.merchant_id, item.addons);
+        } else {
+          const insertResult = await client.query(
+            `
+            INSERT INTO transaction_item (
+              transaction_id,
+              service_id,
+              service_name,
+              service_unit,
+              price,
+              qty,
+              duration_id,
+              duration_name,
+              duration_length,
+              duration_length_type,
+              estimated_date,
+              billed_qty,
+              total_price,
+              applied_tier
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+            RETURNING id;
+            `,
+            [transaction.id, ...transactionItemValues(itemDetail)]
+          );
+          if (item.addons?.length) {
+            await saveItemAddons(
+              client,
+              insertResult.rows[0].id,
+              transaction.id,
+              item.qty,
+              transaction.merchant_id,
+              item.addons
+            );
+          }
+        }
+      }
+
+      const { total } = await recalculateTransactionTotals(client, transaction.id);
+      await syncTransactionStatus(client, transaction.id, "Item transaksi diubah", changedBy);
+
+      if (isPaid) {
+        const difference = total - Number(transaction.total_amount_due || 0);
+        if (difference !== 0) {
+          await addPaymentAdjustment({
+            payment_id: transaction.payment_id,
+            transaction_id: transaction.id,
+            type: difference < 0 ? "refund" : "charge",
+            amount: Math.abs(difference),
+            note: adjustmentNote,
+            created_by: changedBy,
+          });
+        }
+      }
+
+      return getTransactionById(invoiceId);
+    } finally {
+      client.release();
+    }
+  });
+}
+
+/**
+ * Recalculate the subtotal, discount, service charge, tax and amount due of a transaction
+ * from its current items and store the result on the transaction and its payment.
+ * The tax rates stored on the transaction are used, not the merchant's current settings.
+ * The accrued storage fee and the delivery fee are added to the amount due after tax.
+ * @param client - The connection used by the surrounding operation.
+ * @param transactionId - The ID of the transaction to recalculate.
+ * @returns The recalculated amounts.
+ */
+export async function recalculateTransactionTotals(
+  client: PoolClient,
+  transactionId: string
+): Promise<{
+  subtotal: number;
+  discount_amount: number;
+  service_charge_amount: number;
+  tax_amount: number;
+  storage_fee_amount: number;
+  delivery_fee: number;
+  total: number;
+}> {
+  const { rows } = await client.query(
+    `
+    SELECT
+      t.merchant_id,
+      t.discount_id,
+      t.storage_fee_amount,
+      COALESCE((SELECT td.fee FROM transaction_delivery td WHERE td.transaction_id = t.id), 0) AS delivery_fee,
+      t.tax_rate,
+      t.tax_inclusive,
+      t.service_charge_rate,
+      COALESCE((SELECT SUM(ti.total_price + ti.addon_total) FROM transaction_item ti WHERE ti.transaction_id = t.id), 0) AS subtotal
+    FROM transaction t
+    WHERE t.id = $1
+    `,
+    [transactionId]
+  );
+  const subtotal = Number(rows[0]?.subtotal || 0);
+
+  let discountAmount = 0;
+  if (rows[0]?.discount_id) {
+    const discountRecord = await getDiscountById(rows[0].discount_id, rows[0].merchant_id);
+    if (discountRecord) {
+      discountAmount = calculateDiscountAmount(subtotal, discountRecord);
+    }
+  }
+
+  const taxes = calculateTaxes(subtotal - discountAmount, {
+    tax_rate: Number(rows[0]?.tax_rate || 0),
+    tax_inclusive: Boolean(rows[0]?.tax_inclusive),
+    service_charge_rate: Number(rows[0]?.service_charge_rate || 0),
+  });
+
+  await client.query(
+    `
+    UPDATE transaction
+    SET discount_amount = $1, service_charge_amount = $2, tax_base = $3, tax_amount = $4
+    WHERE id = $5
+    `,
+    [discountAmount, taxes.service_charge_amount, taxes.tax_base, taxes.tax_amount, transactionId]
+  );
+  const storageFeeAmount = Number(rows[0]?.storage_fee_amount || 0);
+  const deliveryFee = Number(rows[0]?.delivery_fee || 0);
+  const total = taxes.total + storageFeeAmount + deliveryFee;
+  await client.query(
+    `UPDATE payment SET total_amount_due = $1 WHERE transaction_id = $2`,
+    [total, transactionId]
+  );
+
+  return {
+    subtotal,
+    discount_amount: discountAmount,
+    service_charge_amount: taxes.service_charge_amount,
+    tax_amount: taxes.tax_amount,
+    storage_fee_amount: storageFeeAmount,
+    delivery_fee: deliveryFee,
+    total,
+  };
+}
+
+
+/**
+ * Updates the status and the completed_at timestamp of a transaction by its invoice ID.
+ * If the status is "Selesai", the completed_at timestamp will be set to the current time.
+ * Every call is recorded in the transaction status log together with the actor.
+ *
+ * @param status - The new status of the transaction.
+ * @param note - Optional note explaining the change, stored in the status log.
+ * @param invoiceId - The invoice ID of the transaction to update.
+ * @param changedBy - The ID of the user performing the change.
+ * @param changedAt - When the change happened, if not now (e.g. on an offline device).
+ * @returns A Promise resolving to the updated Transaction object, or null if not found.
+ */
+export async function updateTransaction(
+  status: string,
+  note: string,
+  invoiceId: string,
+  changedBy?: string,
+  changedAt?: Date
+): Promise<TransactionDetails | null> {
+  return withUnitOfWork(async () => {
+    const client = await getClient();
+    try {
+      const query = `
+        WITH previous AS (
+          SELECT t.id, t.status
+          FROM transaction t
+          JOIN payment p ON t.id = p.transaction_id
+          WHERE p.invoice_id = $2 AND t.deleted_at IS NULL
+        )
+        UPDATE transaction
+        SET
+          status = $1::text, 
+          completed_at = CASE 
+                            WHEN $1 = 'Selesai' THEN COALESCE($3::timestamptz, NOW()) 
+                            ELSE completed_at 
+                          END,
+          ready_to_pick_up_at = CASE 
+                                  WHEN $1 = 'Siap Diambil' THEN COALESCE($3::timestamptz, NOW()) 
+                                  ELSE ready_to_pick_up_at 
+                                END
+        FROM previous
+        WHERE transaction.id = previous.id
+        RETURNING transaction.id, previous.status AS old_status;
+      `;
+
+      const values = [status, invoiceId, changedAt || null];
+
+      const currentResult = await client.query(
+        `
+        SELECT t.status
+        FROM transaction t
+        JOIN payment p ON t.id = p.transaction_id
+        WHERE p.invoice_id = $1 AND t.deleted_at IS NULL
+        FOR UPDATE OF t
+        `,
+        [invoiceId]
+      );
+      if (currentResult.rows[0]?.status === "Dibatalkan") {
+        throw new Error("Transaksi sudah dibatalkan");
+      }
+
+      const result = await client.query(query, values);
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const { id, old_status } = result.rows[0];
+      await cascadeStatusToItems(client, id, status);
+      await recordStatusChange(client, id, old_status, status, note || null, changedBy, changedAt);
+
+      const transactionDetail = await getTransactionByTransactionId(id);
+      return transactionDetail;
+    } finally {
+      client.release();
+    }
+  });
+}
+
+/**
+ * Move several transactions of a merchant to the same status, each in its own unit of
+ * work so one failing order does not hold back the others.
+ * @param invoiceIds - The invoice IDs of the transactions.
+ * @param status - The new status.
+ * @param note - Optional note stored in the status log of every transaction.
+ * @param merchantId - The ID of the merchant owning the transactions.
+ * @returns {Promise<BulkStatusResult[]>} - The outcome per invoice, in the order given.
+ */
+export async function bulkUpdateTransactionStatus(
+  invoiceIds: string[],
+  status: string,
+  note: string | null,
+  merchantId: string
+): Promise<BulkStatusResult[]> {
+  const client = await getClient();
+  let current: Map<string, string>;
+  try {
+    const { rows } = await client.query(
+      `
+      SELECT p.invoice_id, t.status
+      FROM transaction t
+      JOIN payment p ON p.transaction_id = t.id
+      WHERE p.invoice_id = ANY($1::text[]) AND t.merchant_id = $2 AND t.deleted_at IS NULL
+      `,
+      [invoiceIds, merchantId]
+    );
+    current = new Map(rows.map((row) => [row.invoice_id, row.status]));
+  } finally {
+    client.release();
+  }
+
+  const results: BulkStatusResult[] = [];
+  for (const invoice of invoiceIds) {
+    const oldStatus = current.get(invoice);
+    if (!oldStatus) {
+      results.push({ invoice, result: "not_found", message: "Transaksi tidak ditemukan" });
+      continue;
+    }
+    if (oldStatus === status) {
+      results.push({ invoice, result: "unchanged", old_status: oldStatus });
+      continue;
+    }
+
+    try {
+      await updateTransaction(status, note || "", invoice, merchantId);
+      results.push({ invoice, result: "updated", old_status: oldStatus });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("dibatalkan")) {
+        results.push({ invoice, result: "cancelled", old_status: oldStatus, message: error.message });
+        continue;
+      }
+      console.error(`Error updating status of ${invoice}:`, error);
+      results.push({ invoice, result: "error", old_status: oldStatus, message: "Gagal mengubah status" });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Retrieve the open orders of a merchant grouped by status for a kanban board.
+ * Every column holds its total, how many orders are due today and how many are
+ * overdue, and the orders that are due first.
+ * @param merchantId - The ID of the merchant.
+ * @param limit - The maximum number of orders listed per column.
+ * @returns {Promise<BoardColumn[]>} - The columns in workflow order.
+ */
+export async function getTransactionBoard(
+  merchantId: string,
+  limit: number = 50
+): Promise<BoardColumn[]> {
+  const statuses = ["Diproses", "Siap Diambil", "Selesai"];
+  const settings = await getMerchantSettings(merchantId);
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      SELECT *
+      FROM (
+        SELECT
+          *,
+          COUNT(*) OVER (PARTITION BY status) AS column_count,
+          COUNT(*) FILTER (WHERE is_due_today) OVER (PARTITION BY status) AS column_due_today,
+          COUNT(*) FILTER (WHERE is_overdue) OVER (PARTITION BY status) AS column_overdue,
+          ROW_NUMBER() OVER (
+            PARTITION BY status
+            ORDER BY estimated_date ASC NULLS LAST, created_at ASC
+          ) AS position
+        FROM (
+          SELECT
+            t.id,
+            p.invoice_id AS invoice,
+            t.customer_name AS customer,
+            t.customer_phone_number,
+            t.status,
+            p.status AS payment_status,
+            p.total_amount_due::double precision AS total,
+            t.created_at,
+            COALESCE(agg.pending_due_date, agg.estimated_date) AS estimated_date,
+            COALESCE(${IS_OVERDUE}, false) AS is_overdue,
+            COALESCE(${MINUTES_LATE}, 0) AS minutes_late,
+            COALESCE(
+              t.status = 'Diproses'
+                AND NOT ${IS_OVERDUE}
+                AND (agg.pending_due_date AT TIME ZONE $3)::date = (NOW() AT TIME ZONE $3)::date,
+              false
+            ) AS is_due_today
+          FROM "transaction" t
+          JOIN payment p ON p.transaction_id = t.id
+          LEFT JOIN (${ITEM_DUE_DATES}) agg ON agg.transaction_id = t.id
+          WHERE t.merchant_id = $1
+            AND t.deleted_at IS NULL
+            AND t.status = ANY($2::text[])
+        ) orders
+      ) board
+      WHERE position <= $4
+      ORDER BY status, position
+      `,
+      [merchantId, statuses, settings.timezone, limit]
+    );
+
+    return statuses.map((status) => {
+      const orders = rows.filter((row) => row.status === status);
+      return {
+        status,
+        count: Number(orders[0]?.column_count || 0),
+        due_today: Number(orders[0]?.column_due_today || 0),
+        overdue: Number(orders[0]?.column_overdue || 0),
+        orders: orders.map(
+          ({ position, column_count, column_due_today, column_overdue, ...order }) => order
+        ),
+      };
+    });
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Cancel a transaction by its invoice ID.
+ * An unpaid payment is marked "Dibatalkan"; a settled payment is refunded in full,
+ * recorded as a refund adjustment and marked "Dikembalikan".
+ *
+ * @param invoiceId - The invoice ID of the transaction to cancel.
+ * @param reason - Why the order is cancelled.
+ * @param changedBy - The ID of the user cancelling the order.
+ * @param cancelledAt - When the order was cancelled, if not now (e.g. on an offline device).
+ * @returns A Promise resolving to the cancelled transaction, or null if not found.
+ */
+export async function cancelTransaction(
+  invoiceId: string,
+  reason: string,
+  changedBy?: string,
+  cancelledAt?: Date
+): Promise<TransactionDetails | null> {
+  return withUnitOfWork(async () => {
+    const client = await getClient();
+    try {
+      const transactionResult = await client.query(
+        `
+        SELECT
+          t.id,
+          t.status,
+          p.id AS payment_id,
+          p.status AS payment_status,
+          p.total_amount_due
+        FROM transaction t
+        JOIN payment p ON t.id = p.transaction_id
+        WHERE p.invoice_id = $1 AND t.deleted_at IS NULL
+        FOR UPDATE OF t, p
+        `,
+        [invoiceId]
+      );
+      if (transactionResult.rows.length === 0) {
+        return null;
+      }
+
+      const transaction = transactionResult.rows[0];
+      if (transaction.status === "Dibatalkan") {
+        throw new Error("Transaksi sudah dibatalkan");
+      }
+      if (transaction.status === "Selesai") {
+        throw new Error("Transaksi yang sudah selesai tidak dapat dibatalkan");
+      }
+
+      await client.query(
+        `
+        UPDATE transaction
+        SET status = 'Dibatalkan', cancelled_at = COALESCE($4::timestamptz, NOW()), cancel_reason = $1, cancelled_by = $2
+        WHERE id = $3
+        `,
+        [reason, changedBy || null, transaction.id, cancelledAt || null]
+      );
+      await recordStatusChange(
+        client,
+        transaction.id,
+        transaction.status,
+        "Dibatalkan",
+        reason,
+        changedBy,
+        cancelledAt
+      );
+
+      if (transaction.payment_status === "Lunas") {
+        await addPaymentAdjustment({
+          payment_id: transaction.payment_id,
+          transaction_id: transaction.id,
+          type: "refund",
+          amount: Number(transaction.total_amount_due || 0),
+          note: reason,
+          created_by: changedBy,
+        });
+        await client.query(`UPDATE payment SET status = 'Dikembalikan' WHERE id = $1`, [transaction.payment_id]);
+      } else {
+        await client.query(`UPDATE payment SET status = 'Dibatalkan' WHERE id = $1`, [transaction.payment_id]);
+      }
+
+      return getTransactionById(invoiceId);
+    } finally {
+      client.release();
+    }
+  });
+}
+
+/**
+ * Move individual items of a transaction to a new status.
+ * The transaction status is then derived from its items: "Selesai" once every item
+ * is collected, "Siap Diambil" once every item is at least ready, otherwise "Diproses".
+ *
+ * @param invoiceId - The invoice ID of the transaction.
+ * @param itemIds - The IDs of the items to move.
+ * @param status - The new item status.
+ * @param note - Optional note stored in the status log when the transaction status changes.
+ * @param changedBy - The ID of the user performing the change.
+ * @returns A Promise resolving to the updated transaction, or null if not found.
+ */
+export async function updateTransactionItemStatus(
+  invoiceId: string,
+  itemIds: string[],
+  status: TransactionItemStatus,
+  note?: string | null,
+  changedBy?: string
+): Promise<TransactionDetails | null> {
+  return withUnitOfWork(async () => {
+    const client = await getClient();
+    try {
+      const transactionResult = await client.query(
+        `
+        SELECT t.id, t.status
+        FROM transaction t
+        JOIN payment p ON t.id = p.transaction_id
+        WHERE p.invoice_id = $1 AND t.deleted_at IS NULL
+        FOR UPDATE OF t
+        `,
+        [invoiceId]
+      );
+      if (transactionResult.rows.length === 0) {
+        return null;
+      }
+
+      const transaction = transactionResult.rows[0];
+      if (transaction.status === "Dibatalkan") {
+        throw new Error("Transaksi sudah dibatalkan");
+      }
+
+      const itemsResult = await client.query(
+        `SELECT id, status FROM transaction_item WHERE transaction_id = $1 AND id = ANY($2::uuid[])`,
+        [transaction.id, itemIds]
+      );
+      if (itemsResult.rows.length !== new Set(itemIds).size) {
+        throw new Error("Item transaksi tidak ditemukan");
+      }
+
+      if (status === "Diambil" && itemsResult.rows.some((row) => row.status === "Diproses")) {
+        throw new Error("Item belum siap diambil");
+      }
+
+      await client.query(
+        `
+        UPDATE transaction_item
+        SET
+          status = $1::text,
+          ready_at = CASE
+                       WHEN $1 = 'Diproses' THEN NULL
+                       WHEN ready_at IS NULL THEN NOW()
+                       ELSE ready_at
+                     END,
+          picked_up_at = CASE
+                           WHEN $1 = 'Diambil' THEN COALESCE(picked_up_at, NOW())
+                           ELSE NULL
+                         END
+        WHERE transaction_id = $2 AND id = ANY($3::uuid[])
+        `,
+        [status, transaction.id, itemIds]
+      );
+
+      await syncTransactionStatus(client, transaction.id, note || null, changedBy);
+      return getTransactionById(invoiceId);
+    } finally {
+      client.release();
+    }
+  });
+}
+
+/**
+ * Bring the items of a transaction in line with a status set on the whole transaction.
+ * @param client - The connection used by the surrounding operation.
+ * @param transactionId - The ID of the transaction.
+ * @param status - The new transaction status.
+ */
+async function cascadeStatusToItems(
+  client: PoolClient,
+  transactionId: string,
+  status: string
+): Promise<void> {
+  if (status === "Siap Diambil") {
+    await client.query(
+      `UPDATE transaction_item SET status = 'Siap Diambil', ready_at = NOW()
+       WHERE transaction_id = $1 AND status = 'Diproses'`,
+      [transactionId]
+    );
+  } else if (status === "Selesai") {
+    await client.query(
+      `UPDATE transaction_item SET status = 'Diambil', ready_at = COALESCE(ready_at, NOW()), picked_up_at = NOW()
+       WHERE transaction_id = $1 AND status <> 'Diambil'`,
+      [transactionId]
+    );
+  } else if (status === "Diproses") {
+    await client.query(
+      `UPDATE transaction_item SET status = 'Diproses', ready_at = NULL
+       WHERE transaction_id = $1 AND status = 'Siap Diambil'`,
+      [transactionId]
+    );
+  }
+}
+
+/**
+ * Derive the transaction status from its items and store it when it changed.
+ * @param client - The connection used by the surrounding operation.
+ * @param transactionId - The ID of the transaction.
+ * @param note - Optional note stored in the status log.
+ * @param changedBy - The ID of the user performing the change.
+ */
+async function syncTransactionStatus(
+  client: PoolClient,
+  transactionId: string,
+  note: string | null,
+  changedBy?: string
+): Promise<void> {
+  const { rows } = await client.query(
+    `
+    SELECT
+      t.status,
+      COUNT(ti.id) AS total_items,
+      COUNT(ti.id) FILTER (WHERE ti.status = 'Diambil') AS collected_items,
+      COUNT(ti.id) FILTER (WHERE ti.status IN ('Siap Diambil', 'Diambil')) AS ready_items
+    FROM transaction t
+    LEFT JOIN transaction_item ti ON ti.transaction_id = t.id
+    WHERE t.id = $1
+    GROUP BY t.id
+    `,
+    [transactionId]
+  );
+  if (rows.length === 0 || rows[0].status === "Dibatalkan") {
+    return;
+  }
 
-    const countQuery = `
-      SELECT COUNT(*) AS total_count
-      ${baseQuery}
-    `;
+  const totalItems = Number(rows[0].total_items);
+  if (totalItems === 0) {
+    return;
+  }
 
-    const countResult = await client.query(
-      countQuery,
-      values.slice(0, -2)
-    );
+  let derivedStatus = "Diproses";
+  if (Number(rows[0].collected_items) === totalItems) {
+    derivedStatus = "Selesai";
+  } else if (Number(rows[0].ready_items) === totalItems) {
+    derivedStatus = "Siap Diambil";
+  }
 
-    return {
-      transactions: transactionsResult.rows,
-      totalCount: parseInt(countResult.rows[0].total_count, 10),
-    };
-  } finally {
-    client.release();
+  if (derivedStatus === rows[0].status) {
+    return;
   }
+
+  await client.query(
+    `
+    UPDATE transaction
+    SET
+      status = $1::text,
+      completed_at = CASE WHEN $1 = 'Selesai' THEN NOW() ELSE completed_at END,
+      ready_to_pick_up_at = CASE WHEN $1 = 'Siap Diambil' THEN NOW() ELSE ready_to_pick_up_at END
+    WHERE id = $2
+    `,
+    [derivedStatus, transactionId]
+  );
+  await recordStatusChange(client, transactionId, rows[0].status, derivedStatus, note, changedBy);
 }
 
 /**
- * Add a new transaction to the database.
- * @param transaction - The transaction data to add.
- * @returns {Promise<Service>} - A promise that resolves to the newly created transaction.
+ * Generate a short, human friendly tag code for a garment label.
+ * Characters that are easy to confuse (0/O, 1/I) are left out.
  */
-export async function addTransaction(
-  transaction: Omit<Transaction, "id">,
-  merchant_id?: string
-): Promise<any | null> {
-  const client = await pool.connect();
-  try {
-    const { customer, status, items, note, discount_id } = transaction;
-    const customerDetail = await getCustomerById(customer);
-
-    const query = `
-      INSERT INTO transaction (
-        customer_id, 
-        customer_name, 
-        customer_phone_number, 
-        customer_email, 
-        customer_address, 
-        status, 
-        merchant_id,
-        note
-      )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING id;
-    `;
+function generateTagCode(length = 6): string {
+  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+  let code = "";
+  for (let i = 0; i < length; i++) {
+    code += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return code;
+}
 
-    const values = [
-      customerDetail?.id,
-      customerDetail?.name,
-      customerDetail?.phone_number,
-      customerDetail?.email,
-      customerDetail?.address,
-      status,
-      merchant_id,
-      note,
-    ];
-    const result = await client.query(query, values);
-    const newTransactionId = result.rows?.[0]?.id;
-
-    // Insert service items
-    const transactionQueries: TransactionQuery[] = [];
-
-    const currentDate = new Date(); 
-    for (const item of items || []) {
-      const serviceDetail = await getServiceDurationDetail(
-        item.service,
-        item.duration
+/**
+ * Insert garment entries for a transaction item, each with its own unique tag code.
+ * @param client - The connection used by the surrounding operation.
+ * @param transactionItemId - The ID of the item the garments belong to.
+ * @param transactionId - The ID of the transaction.
+ * @param garments - The garments to register.
+ * @param merchantId - The ID of the merchant.
+ * @returns {Promise<Garment[]>} - The registered garments including their tag codes.
+ */
+async function insertGarments(
+  client: PoolClient,
+  transactionItemId: string,
+  transactionId: string,
+  garments: GarmentInput[],
+  merchantId?: string
+): Promise<Garment[]> {
+  const inserted: Garment[] = [];
+  for (const garment of garments) {
+    let row: Garment | undefined;
+    // Retry on the rare tag code collision without aborting the surrounding transaction
+    while (!row) {
+      const result = await client.query(
+        `
+        INSERT INTO transaction_item_garment (
+          transaction_item_id, transaction_id, merchant_id, tag_code, type, color, brand, notes
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (tag_code) DO NOTHING
+        RETURNING id, transaction_item_id, tag_code, type, color, brand, notes, created_at
+        `,
+        [
+          transactionItemId,
+          transactionId,
+          merchantId || null,
+          generateTagCode(),
+          garment.type,
+          garment.color || null,
+          garment.brand || null,
+          garment.notes || null,
+        ]
       );
+      row = result.rows[0];
+    }
+    inserted.push(row);
+  }
+  return inserted;
+}
 
-      const durationDetail = await getDurationById(item.duration);
-      let estimatedDate;
-      if (durationDetail?.type === "Jam") {
-        estimatedDate = new Date(
-          currentDate.getTime() + durationDetail.duration * 60 * 60 * 1000
-        );
-      } else if (durationDetail?.type === "Hari") {
-        estimatedDate = new Date(
-          currentDate.getTime() + durationDetail.duration * 24 * 60 * 60 * 1000
-        );
+/**
+ * Register garments for an item of an existing transaction.
+ * @param invoiceId - The invoice ID of the transaction.
+ * @param itemId - The ID of the transaction item.
+ * @param garments - The garments to register.
+ * @returns {Promise<Garment[] | null>} - The registered garments, or null if the item is not found.
+ */
+export async function addTransactionItemGarments(
+  invoiceId: string,
+  itemId: string,
+  garments: GarmentInput[]
+): Promise<Garment[] | null> {
+  return withUnitOfWork(async () => {
+    const client = await getClient();
+    try {
+      const { rows } = await client.query(
+        `
+        SELECT t.id AS transaction_id, t.merchant_id
+        FROM transaction_item ti
+        JOIN transaction t ON t.id = ti.transaction_id
+        JOIN payment p ON p.transaction_id = t.id
+        WHERE p.invoice_id = $1 AND ti.id = $2 AND t.deleted_at IS NULL
+        `,
+        [invoiceId, itemId]
+      );
+      if (rows.length === 0) {
+        return null;
       }
 
-      transactionQueries.push({
-        text: `
-          INSERT INTO transaction_item (
-            transaction_id,
-            service_id,
-            service_name,
-            service_unit,
-            price,
-            qty,
-            duration_id,
-            duration_name,
-            duration_length,
-            duration_length_type,
-            estimated_date
-          )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11);
-    `,
-        values: [
-          newTransactionId,
-          serviceDetail.id,
-          serviceDetail.name,
-          serviceDetail.unit,
-          serviceDetail.price,
-          item.qty,
-          durationDetail?.id,
-          durationDetail?.name,
-          durationDetail?.duration,
-          durationDetail?.type,
-          estimatedDate,
-        ],
-      });
+      return insertGarments(client, itemId, rows[0].transaction_id, garments, rows[0].merchant_id);
+    } finally {
+      client.release();
     }
+  });
+}
+
+/**
+ * Remove a garment entry from a transaction.
+ * @param invoiceId - The invoice ID of the transaction.
+ * @param garmentId - The ID of the garment.
+ * @returns {Promise<boolean>} - Returns true if removed, false if not found.
+ */
+export async function deleteTransactionGarment(
+  invoiceId: string,
+  garmentId: string
+): Promise<boolean> {
+  const client = await getClient();
+  try {
+    const { rowCount } = await client.query(
+      `
+      DELETE FROM transaction_item_garment g
+      USING payment p
+      WHERE p.transaction_id = g.transaction_id AND p.invoice_id = $1 AND g.id = $2
+      `,
+      [invoiceId, garmentId]
+    );
+    return (rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
 
-    for (const query of transactionQueries) {
-      await client.query(query.text, query.values);
+/**
+ * Upload photos to the condition photo bucket. When one upload fails the photos
+ * uploaded before it are removed again and the error is rethrown.
+ * @param folder - The folder inside the bucket.
+ * @param files - The photos to upload.
+ * @returns {Promise<{ path: string; url: string }[]>} - The storage path and public URL of every photo.
+ */
+export async function uploadPhotoFiles(
+  folder: string,
+  files: Express.Multer.File[]
+): Promise<{ path: string; url: string }[]> {
+  const uploaded: { path: string; url: string }[] = [];
+  for (const file of files) {
+    const path = `${folder}/${Date.now()}_${file.originalname}`;
+    const { error } = await supabase.storage
+      .from(PHOTO_BUCKET)
+      .upload(path, file.buffer, { contentType: file.mimetype });
+    if (error) {
+      await removePhotoFiles(uploaded.map(({ path }) => path));
+      throw error;
     }
 
-    const totalPrice = await getInvoiceTotalPrice(newTransactionId);
-    const subtotal = totalPrice?.total || 0;
+    const { data } = supabase.storage.from(PHOTO_BUCKET).getPublicUrl(path);
+    uploaded.push({ path, url: data.publicUrl });
+  }
+  return uploaded;
+}
 
-    // Apply discount if provided
-    let discountAmount = 0;
-    if (discount_id) {
-      const discountRecord = await getDiscountByIdOnly(discount_id);
-      if (discountRecord && discountRecord.is_active) {
-        discountAmount = calculateDiscountAmount(subtotal, discountRecord);
-        await client.query(
-          `UPDATE transaction SET discount_id = $1, discount_amount = $2 WHERE id = $3`,
-          [discount_id, discountAmount, newTransactionId]
-        );
-      }
+/**
+ * Remove photos from the condition photo bucket. Failures are only logged, a
+ * leftover file does no harm once its record is gone.
+ * @param paths - The storage paths of the photos.
+ */
+export async function removePhotoFiles(paths: string[]): Promise<void> {
+  if (paths.length === 0) {
+    return;
+  }
+  const { error } = await supabase.storage.from(PHOTO_BUCKET).remove(paths);
+  if (error) {
+    console.error("Error removing photos from storage:", error);
+  }
+}
+
+/**
+ * Upload condition photos of a transaction, optionally tied to one of its garments.
+ * Files already uploaded are removed again when a later upload or the insert fails.
+ * @param invoiceId - The invoice ID of the transaction.
+ * @param files - The photos to upload.
+ * @param input - The stage the photos were taken at and the optional garment and note.
+ * @returns {Promise<TransactionPhoto[] | null>} - The stored photos, or null if the transaction is not found.
+ */
+export async function addTransactionPhotos(
+  invoiceId: string,
+  files: Express.Multer.File[],
+  input: TransactionPhotoInput
+): Promise<TransactionPhoto[] | null> {
+  const client = await getClient();
+  let transaction: { id: string; merchant_id: string };
+  try {
+    const { rows } = await client.query(
+      `
+      SELECT t.id, t.merchant_id
+      FROM transaction t
+      JOIN payment p ON p.transaction_id = t.id
+      WHERE p.invoice_id = $1 AND t.deleted_at IS NULL
+      `,
+      [invoiceId]
+    );
+    if (rows.length === 0) {
+      return null;
     }
+    transaction = rows[0];
 
-    const totalAfterDiscount = subtotal - discountAmount;
+    if (input.garment_id) {
+      const { rowCount } = await client.query(
+        `SELECT 1 FROM transaction_item_garment WHERE id = $1 AND transaction_id = $2`,
+        [input.garment_id, transaction.id]
+      );
+      if (!rowCount) {
+        throw new Error("Pakaian tidak ditemukan pada transaksi ini");
+      }
+    }
+  } finally {
+    client.release();
+  }
 
-    // Generate Invoice ID
-    const invoiceId = await generateInvoiceId(newTransactionId, merchant_id);
+  const uploaded = await uploadPhotoFiles(
+    `${transaction.merchant_id}/${transaction.id}/${input.stage}`,
+    files
+  );
+  try {
+    return await withUnitOfWork(async () => {
+      const client = await getClient();
+      try {
+        const photos: TransactionPhoto[] = [];
+        for (const { path, url } of uploaded) {
+          const { rows } = await client.query(
+            `
+            INSERT INTO transaction_photo (transaction_id, garment_id, merchant_id, stage, storage_path, url, note)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
+            RETURNING id, stage, garment_id, url, note, created_at
+            `,
+            [
+              transaction.id,
+              input.garment_id || null,
+              transaction.merchant_id,
+              input.stage,
+              path,
+              url,
+              input.note || null,
+            ]
+          );
+          photos.push(rows[0]);
+        }
+        return photos;
+      } finally {
+        client.release();
+      }
+    });
+  } catch (error) {
+    await removePhotoFiles(uploaded.map(({ path }) => path));
+    throw error;
+  }
+}
 
-    // Create Payment
-    await addPayment(
-      {
-        status: "Belum Dibayar",
-        invoice_id: invoiceId,
-        total_amount_due: totalAfterDiscount,
-        transaction_id: newTransactionId,
-      },
-      merchant_id
+/**
+ * Remove a condition photo from a transaction and from storage.
+ * @param invoiceId - The invoice ID of the transaction.
+ * @param photoId - The ID of the photo.
+ * @returns {Promise<boolean>} - Returns true if removed, false if not found.
+ */
+export async function deleteTransactionPhoto(
+  invoiceId: string,
+  photoId: string
+): Promise<boolean> {
+  const client = await getClient();
+  try {
+    const { rows } = await client.query(
+      `
+      DELETE FROM transaction_photo ph
+      USING payment p
+      WHERE p.transaction_id = ph.transaction_id AND p.invoice_id = $1 AND ph.id = $2
+      RETURNING ph.storage_path
+      `,
+      [invoiceId, photoId]
     );
+    if (rows.length === 0) {
+      return false;
+    }
 
-    const transactionDetail = await getTransactionById(invoiceId);
-    return {
-      transaction: transactionDetail,
-    };
+    await removePhotoFiles([rows[0].storage_path]);
+    return true;
   } finally {
     client.release();
   }
 }
 
 /**
- * Retrieve price details of a specific transaction by its ID.
- * @param {string} invoiceId - The ID of the transaction to retrieve.
+ * Delete condition photos older than the retention period of their merchant, both
+ * the files and their records. Photos of orders with an unresolved claim are kept.
+ * Runs in batches; records are only dropped once their files are gone, so a failed
+ * storage call is retried on the next run.
+ * @returns {Promise<number>} - The number of photos deleted.
  */
-async function getInvoiceTotalPrice(
-  transactionId: string
-): Promise<{ total: number } | null> {
-  const client = await pool.connect();
+export async function deleteExpiredTransactionPhotos(): Promise<number> {
+  const client = await getClient();
   try {
-    const query = `
-      SELECT 
-        SUM(ti.price * ti.qty) AS total
-      FROM transaction_item ti
-      WHERE ti.transaction_id = $1
-      GROUP BY ti.transaction_id
-    `;
+    const { rows } = await client.query(
+      `
+      SELECT ph.id, ph.storage_path
+      FROM transaction_photo ph
+      LEFT JOIN merchant_settings ms ON ms.merchant_id = ph.merchant_id
+      WHERE ph.created_at < NOW() - make_interval(days => COALESCE(ms.photo_retention_days, $1))
+        AND NOT EXISTS (
+          SELECT 1 FROM claim c
+          WHERE c.transaction_id = ph.transaction_id AND c.status IN ('open', 'investigating')
+        )
+      ORDER BY ph.created_at
+      LIMIT 500
+      `,
+      [DEFAULT_PHOTO_RETENTION_DAYS]
+    );
+    if (rows.length === 0) {
+      return 0;
+    }
 
-    const result = await client.query(query, [transactionId]);
-    if (result.rows.length === 0) {
-      return null; // No transaction found
+    const { error } = await supabase.storage
+      .from(PHOTO_BUCKET)
+      .remove(rows.map((row) => row.storage_path));
+    if (error) {
+      throw error;
     }
 
-    return result.rows[0];
+    await client.query(`DELETE FROM transaction_photo WHERE id = ANY($1::uuid[])`, [
+      rows.map((row) => row.id),
+    ]);
+    return rows.length;
   } finally {
     client.release();
   }
 }
 
 /**
- * Updates the status and the completed_at timestamp of a transaction by its invoice ID.
- * If the status is "Selesai", the completed_at timestamp will be set to the current time.
- *
- * @param status - The new status of the transaction.
- * @param invoiceId - The invoice ID of the transaction to update.
- * @returns A Promise resolving to the updated Transaction object.
+ * Find the order a scanned garment tag belongs to.
+ * @param tagCode - The tag code printed on the garment label.
+ * @param merchantId - When given, only tags of this merchant are matched.
+ * @returns {Promise<GarmentLookup | null>} - The garment with its order, or null if not found.
  */
-export async function updateTransaction(
-  status: string,
-  note: string,
-  invoiceId: string
-): Promise<TransactionDetails> {
-  const client = await pool.connect();
+export async function getGarmentByTagCode(
+  tagCode: string,
+  merchantId?: string
+): Promise<GarmentLookup | null> {
+  const client = await getClient();
   try {
     const query = `
-      UPDATE transaction
-      SET
-        status = $1::text, 
-        completed_at = CASE 
-                          WHEN $1 = 'Selesai' THEN NOW() 
-                          ELSE completed_at 
-                        END,
-        ready_to_pick_up_at = CASE 
-                                WHEN $1 = 'Siap Diambil' THEN NOW() 
-                                ELSE ready_to_pick_up_at 
-                              END
-      WHERE id = (
-        SELECT t.id
-        FROM transaction t
-        JOIN payment p ON t.id = p.transaction_id
-        WHERE p.invoice_id = $2
-      )
-      RETURNING *;
+      SELECT
+        g.id,
+        g.tag_code,
+        g.type,
+        g.color,
+        g.brand,
+        g.notes,
+        p.invoice_id AS invoice,
+        t.id AS transaction_id,
+        t.customer_name,
+        t.customer_phone_number,
+        t.status AS transaction_status,
+        ti.id AS item_id,
+        ti.service_name,
+        ti.status AS item_status
+      FROM transaction_item_garment g
+      JOIN transaction_item ti ON ti.id = g.transaction_item_id
+      JOIN transaction t ON t.id = g.transaction_id
+      LEFT JOIN payment p ON p.transaction_id = t.id
+      WHERE g.tag_code = UPPER($1)
+        AND t.deleted_at IS NULL
+        AND ($2::uuid IS NULL OR t.merchant_id = $2)
     `;
+    const { rows } = await client.query(query, [tagCode, merchantId || null]);
+    return rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Append an entry to the status timeline of a transaction.
+ * @param client - The connection used by the surrounding operation.
+ * @param transactionId - The ID of the transaction whose status changed.
+ * @param oldStatus - The status before the change, null for a newly created transaction.
+ * @param newStatus - The status after the change.
+ * @param note - Optional note explaining the change.
+ * @param changedBy - The ID of the user performing the change.
+ * @param changedAt - When the change happened, defaults to now.
+ */
+async function recordStatusChange(
+  client: PoolClient,
+  transactionId: string,
+  oldStatus: string | null,
+  newStatus: string,
+  note: string | null,
+  changedBy?: string,
+  changedAt?: Date
+): Promise<void> {
+  await client.query(
+    `INSERT INTO transaction_status_log (transaction_id, old_status, new_status, note, changed_by, created_at)
+     VALUES ($1, $2, $3, $4, $5, COALESCE($6::timestamptz, NOW()))`,
+    [transactionId, oldStatus, newStatus, note, changedBy || null, changedAt || null]
+  );
+}
 
-    const values = [status, invoiceId];
+/**
+ * Retrieve the status timeline of a transaction, oldest change first.
+ * @param {string} invoiceId - The invoice ID of the transaction.
+ * @returns {Promise<TransactionStatusLog[] | null>} - The timeline, or null if the transaction is not found.
+ */
+export async function getTransactionStatusHistory(
+  invoiceId: string
+): Promise<TransactionStatusLog[] | null> {
+  const client = await getClient();
+  try {
+    const transactionResult = await client.query(
+      `SELECT transaction_id FROM payment WHERE invoice_id = $1`,
+      [invoiceId]
+    );
+    if (transactionResult.rows.length === 0) {
+      return null;
+    }
 
-    const result = await client.query(query, values);
-    const transactionDetail = getTransactionByTransactionId(result.rows[0].id);
-    return transactionDetail;
+    const query = `
+      SELECT
+        l.id,
+        l.old_status,
+        l.new_status,
+        l.note,
+        l.changed_by,
+        u.name AS changed_by_name,
+        l.created_at
+      FROM transaction_status_log l
+      LEFT JOIN users u ON u.id = l.changed_by
+      WHERE l.transaction_id = $1
+      ORDER BY l.created_at ASC
+    `;
+    const result = await client.query(query, [transactionResult.rows[0].transaction_id]);
+    return result.rows;
   } finally {
     client.release();
   }
@@ -342,7 +1931,7 @@ export async function updateTransaction(
 export async function getTransactionById(
   invoiceId: string
 ): Promise<TransactionDetails | null> {
-  const client = await pool.connect();
+  const client = await getClient();
   try {
     const query = `
       SELECT 
@@ -356,30 +1945,110 @@ export async function getTransactionById(
         t.created_at,
         t.note,
         t.status AS transaction_status,
+        t.cancelled_at,
+        t.cancel_reason,
         p.invoice_id AS invoice,
-        SUM(ti.price * ti.qty) AS subtotal,
+        SUM(ti.total_price + ti.addon_total) AS subtotal,
         t.discount_id,
         d.name AS discount_name,
         d.type AS discount_type,
         d.value AS discount_value,
         t.discount_amount,
-        SUM(ti.price * ti.qty) - COALESCE(t.discount_amount, 0) AS total,
+        t.service_charge_rate,
+        t.service_charge_amount,
+        t.tax_rate,
+        t.tax_inclusive,
+        t.tax_base,
+        t.tax_amount,
+        t.storage_fee_days,
+        t.storage_fee_amount,
+        (
+          SELECT row_to_json(td)
+          FROM (
+            SELECT id, address, address_note, pickup_window_start, pickup_window_end, pickup_route_order,
+                   dropoff_window_start, dropoff_window_end, dropoff_route_order,
+                   courier_name, courier_phone_number, fee::double precision AS fee
+            FROM transaction_delivery
+            WHERE transaction_id = t.id
+          ) td
+        ) AS delivery,
+        p.total_amount_due AS total,
         p.status AS payment_status,
         p.payment_method,
         p.id AS payment_id,
         MAX(ti.estimated_date) AS estimated_date,
         json_agg(
           json_build_object(
+            'id', ti.id,
             'service_id', ti.service_id,
             'service_name', ti.service_name,
             'service_unit', ti.service_unit,
             'price', ti.price,
             'quantity', ti.qty,
+            'billed_qty', ti.billed_qty,
+            'total_price', ti.total_price,
+            'applied_tier', ti.applied_tier,
+            'addon_total', ti.addon_total,
+            'addons', (
+              SELECT COALESCE(
+                json_agg(
+                  json_build_object(
+                    'id', a.id,
+                    'addon_id', a.addon_id,
+                    'name', a.name,
+                    'pricing_type', a.pricing_type,
+                    'price', a.price,
+                    'qty', a.qty,
+                    'total_price', a.total_price
+                  ) ORDER BY a.created_at
+                ),
+                '[]'::json
+              )
+              FROM transaction_item_addon a
+              WHERE a.transaction_item_id = ti.id
+            ),
             'duration_id', ti.duration_id,
             'duration_name', ti.duration_name,
-            'estimated_date', ti.estimated_date
+            'estimated_date', ti.estimated_date,
+            'status', ti.status,
+            'ready_at', ti.ready_at,
+            'picked_up_at', ti.picked_up_at,
+            'garments', (
+              SELECT COALESCE(
+                json_agg(
+                  json_build_object(
+                    'id', g.id,
+                    'tag_code', g.tag_code,
+                    'type', g.type,
+                    'color', g.color,
+                    'brand', g.brand,
+                    'notes', g.notes
+                  ) ORDER BY g.created_at
+                ),
+                '[]'::json
+              )
+              FROM transaction_item_garment g
+              WHERE g.transaction_item_id = ti.id
+            )
+          )
+        ) AS services,
+        (
+          SELECT COALESCE(
+            json_agg(
+              json_build_object(
+                'id', ph.id,
+                'stage', ph.stage,
+                'garment_id', ph.garment_id,
+                'url', ph.url,
+                'note', ph.note,
+                'created_at', ph.created_at
+              ) ORDER BY ph.created_at
+            ),
+            '[]'::json
           )
-        ) AS services
+          FROM transaction_photo ph
+          WHERE ph.transaction_id = t.id
+        ) AS photos
       FROM transaction t
       LEFT JOIN payment p ON t.id = p.transaction_id
       LEFT JOIN transaction_item ti ON t.id = ti.transaction_id
@@ -412,7 +2081,7 @@ export async function getTransactionById(
 export async function getTransactionByTransactionId(
   invoiceId: string
 ): Promise<TransactionDetails> {
-  const client = await pool.connect();
+  const client = await getClient();
   try {
     const query = `
       SELECT 
@@ -434,37 +2103,333 @@ export async function getTransactionByTransactionId(
 }
 
 /**
- * Soft delete a transaction by its ID.
+ * Soft delete a transaction by its ID. The transaction moves to the trash,
+ * from where it can be restored until the retention period ends.
  * @param {string} transactionId - The ID of the transaction to soft delete.
+ * @param {string | null} reason - Why the transaction is deleted.
+ * @param {string} deletedBy - The ID of the user deleting the transaction.
  * @returns {Promise<boolean>} - Returns true if soft deleted, false if not found.
  */
 export async function softDeleteTransactionById(
-  transactionId: string
+  transactionId: string,
+  reason?: string | null,
+  deletedBy?: string
 ): Promise<boolean> {
-  const client = await pool.connect();
-  try {
-    // Cek dulu apakah transaksi ada dan belum dihapus
-    const checkQuery = `SELECT id FROM transaction WHERE id = $1 AND deleted_at IS NULL`;
-    const { rowCount } = await client.query(checkQuery, [transactionId]);
+  return withUnitOfWork(async () => {
+    const client = await getClient();
+    try {
+      // Update deleted_at dengan timestamp sekarang, hanya jika belum dihapus
+      const deleteQuery = `
+        UPDATE transaction
+        SET deleted_at = NOW(), deleted_by = $2, delete_reason = $3
+        WHERE id = $1 AND deleted_at IS NULL
+      `;
+      const { rowCount } = await client.query(deleteQuery, [transactionId, deletedBy || null, reason || null]);
+
+      if (rowCount === 0) {
+        return false; // transaksi tidak ditemukan atau sudah dihapus
+      }
 
-    if (rowCount === 0) {
-      return false; // transaksi tidak ditemukan atau sudah dihapus
+      await recordTrashAction(client, transactionId, "delete", reason, deletedBy);
+      return true; // soft delete berhasil
+    } finally {
+      client.release();
     }
+  });
+}
+
+/**
+ * Retrieve the soft-deleted transactions of a merchant, most recently deleted first.
+ * @param {string | undefined} merchant_id - The ID of the merchant.
+ * @param {number} [page=1] - The page number for pagination.
+ * @param {number} [limit=10] - The number of transactions per page.
+ * @returns The deleted transactions with who deleted them, why, and when they will be purged.
+ */
+export async function getDeletedTransactions(
+  merchant_id?: string,
+  page: number = 1,
+  limit: number = 10
+): Promise<{ transactions: DeletedTransaction[]; totalCount: number }> {
+  const client = await getClient();
+  try {
+    const countResult = await client.query(
+      `SELECT COUNT(*) AS total_count FROM transaction WHERE merchant_id = $1 AND deleted_at IS NOT NULL`,
+      [merchant_id]
+    );
+    const totalCount = parseInt(countResult.rows[0].total_count, 10);
 
-    // Update deleted_at dengan timestamp sekarang
-    const deleteQuery = `
-      UPDATE transaction
-      SET deleted_at = NOW()
-      WHERE id = $1
+    const offset = (page - 1) * limit;
+    const query = `
+      SELECT
+        t.id,
+        p.invoice_id AS invoice,
+        t.customer_name,
+        t.status,
+        p.status AS payment_status,
+        p.total_amount_due AS total,
+        t.created_at,
+        t.deleted_at,
+        t.deleted_by,
+        u.name AS deleted_by_name,
+        t.delete_reason,
+        t.deleted_at + make_interval(days => COALESCE(ms.trash_retention_days, $4)) AS purge_at
+      FROM transaction t
+      LEFT JOIN payment p ON p.transaction_id = t.id
+      LEFT JOIN users u ON u.id = t.deleted_by
+      LEFT JOIN merchant_settings ms ON ms.merchant_id = t.merchant_id
+      WHERE t.merchant_id = $1 AND t.deleted_at IS NOT NULL
+      ORDER BY t.deleted_at DESC
+      LIMIT $2 OFFSET $3
     `;
-    await client.query(deleteQuery, [transactionId]);
+    const result = await client.query(query, [merchant_id, limit, offset, DEFAULT_TRASH_RETENTION_DAYS]);
+
+    return {
+      transactions: result.rows,
+      totalCount,
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Restore a soft-deleted transaction of a merchant from the trash.
+ * @param {string} transactionId - The ID of the transaction to restore.
+ * @param {string | undefined} merchant_id - The ID of the merchant owning the transaction.
+ * @param {string | null} reason - Why the transaction is restored.
+ * @param {string} restoredBy - The ID of the user restoring the transaction.
+ * @returns {Promise<boolean>} - Returns true if restored, false if not found in the trash.
+ */
+export async function restoreTransactionById(
+  transactionId: string,
+  merchant_id?: string,
+  reason?: string | null,
+  restoredBy?: string
+): Promise<boolean> {
+  return withUnitOfWork(async () => {
+    const client = await getClient();
+    try {
+      const { rowCount } = await client.query(
+        `
+        UPDATE transaction
+        SET deleted_at = NULL, deleted_by = NULL, delete_reason = NULL
+        WHERE id = $1 AND merchant_id = $2 AND deleted_at IS NOT NULL
+        `,
+        [transactionId, merchant_id]
+      );
+
+      if (rowCount === 0) {
+        return false;
+      }
+
+      await recordTrashAction(client, transactionId, "restore", reason, restoredBy);
+      return true;
+    } finally {
+      client.release();
+    }
+  });
+}
+
+/**
+ * Permanently remove transactions that stayed in the trash longer than their
+ * merchant's retention period, together with their items, payments and photos.
+ * @returns {Promise<number>} - The number of purged transactions.
+ */
+export async function purgeDeletedTransactions(): Promise<number> {
+  const { purged, photoPaths } = await withUnitOfWork(async () => {
+    const client = await getClient();
+    try {
+      const { rows } = await client.query(
+        `
+        SELECT t.id
+        FROM transaction t
+        LEFT JOIN merchant_settings ms ON ms.merchant_id = t.merchant_id
+        WHERE t.deleted_at IS NOT NULL
+          AND t.deleted_at < NOW() - make_interval(days => COALESCE(ms.trash_retention_days, $1))
+        FOR UPDATE OF t
+        `,
+        [DEFAULT_TRASH_RETENTION_DAYS]
+      );
+      const ids = rows.map((row) => row.id);
+      if (ids.length === 0) {
+        return { purged: 0, photoPaths: [] as string[] };
+      }
+
+      // Photo records go with the transaction, their files have to be removed separately
+      const photos = await client.query(
+        `
+        SELECT storage_path FROM transaction_photo WHERE transaction_id = ANY($1::uuid[])
+        UNION ALL
+        SELECT cp.storage_path
+        FROM claim_photo cp
+        JOIN claim c ON c.id = cp.claim_id
+        WHERE c.transaction_id = ANY($1::uuid[])
+        `,
+        [ids]
+      );
+
+      // Items and payments are not tied to the transaction by a foreign key
+      await client.query(`DELETE FROM transaction_item WHERE transaction_id = ANY($1::uuid[])`, [ids]);
+      await client.query(`DELETE FROM payment WHERE transaction_id = ANY($1::uuid[])`, [ids]);
+      await client.query(`DELETE FROM transaction WHERE id = ANY($1::uuid[])`, [ids]);
+
+      return {
+        purged: ids.length,
+        photoPaths: photos.rows.map((row) => row.storage_path as string),
+      };
+    } finally {
+      client.release();
+    }
+  });
+
+  await removePhotoFiles(photoPaths);
+  return purged;
+}
+
+/**
+ * Charge storage on unpaid orders that wait for pickup longer than the merchant's
+ * grace period. The fee is recomputed from the pickup-ready date on every run, so
+ * running it more than once a day does not charge twice.
+ * @returns {Promise<number>} - The number of transactions whose storage fee changed.
+ */
+export async function accrueStorageFees(): Promise<number> {
+  return withUnitOfWork(async () => {
+    const client = await getClient();
+    try {
+      const { rows } = await client.query(
+        `
+        SELECT id, storage_fee_days, chargeable_days, storage_fee_per_day
+        FROM (
+          SELECT
+            t.id,
+            t.storage_fee_days,
+            ms.storage_fee_per_day,
+            GREATEST(
+              FLOOR(EXTRACT(EPOCH FROM NOW() - t.ready_to_pick_up_at) / 86400)::int - ms.storage_fee_grace_days,
+              0
+            ) AS chargeable_days
+          FROM transaction t
+          JOIN merchant_settings ms ON ms.merchant_id = t.merchant_id
+          JOIN payment p ON p.transaction_id = t.id
+          WHERE t.status = 'Siap Diambil'
+            AND t.deleted_at IS NULL
+            AND t.ready_to_pick_up_at IS NOT NULL
+            AND p.status = 'Belum Dibayar'
+            AND ms.storage_fee_per_day > 0
+          FOR UPDATE OF t
+        ) candidates
+        WHERE chargeable_days <> storage_fee_days
+        `
+      );
+
+      for (const row of rows) {
+        await client.query(
+          `UPDATE transaction SET storage_fee_days = $1, storage_fee_amount = $2 WHERE id = $3`,
+          [row.chargeable_days, row.chargeable_days * Number(row.storage_fee_per_day), row.id]
+        );
+        await recalculateTransactionTotals(client, row.id);
+      }
+
+      return rows.length;
+    } finally {
+      client.release();
+    }
+  });
+}
 
-    return true; // soft delete berhasil
+/**
+ * Retrieve the orders waiting for pickup whose next pickup reminder is due.
+ * Only the latest due reminder day is returned, so a customer who was missed for a
+ * while receives one email instead of several at once.
+ * @returns The orders to remind together with the reminder day that is due.
+ */
+export async function getDuePickupReminders(): Promise<PickupReminderCandidate[]> {
+  const client = await getClient();
+  try {
+    const result = await client.query(
+      `
+      SELECT
+        t.id AS transaction_id,
+        t.merchant_id,
+        t.customer_name,
+        t.customer_email,
+        t.ready_to_pick_up_at,
+        t.storage_fee_amount,
+        p.invoice_id,
+        p.total_amount_due,
+        u.name AS merchant_name,
+        u.phone_number AS merchant_phone_number,
+        due.reminder_day
+      FROM transaction t
+      JOIN payment p ON p.transaction_id = t.id
+      JOIN users u ON u.id = t.merchant_id
+      LEFT JOIN merchant_settings ms ON ms.merchant_id = t.merchant_id
+      CROSS JOIN LATERAL (
+        SELECT MAX(day) AS reminder_day
+        FROM unnest(COALESCE(ms.pickup_reminder_days, $1::int[])) AS day
+        WHERE t.ready_to_pick_up_at <= NOW() - make_interval(days => day)
+      ) due
+      WHERE t.status = 'Siap Diambil'
+        AND t.deleted_at IS NULL
+        AND t.ready_to_pick_up_at IS NOT NULL
+        AND COALESCE(t.customer_email, '') <> ''
+        AND due.reminder_day IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1
+          FROM transaction_pickup_reminder r
+          WHERE r.transaction_id = t.id AND r.reminder_day >= due.reminder_day
+        )
+      `,
+      [DEFAULT_PICKUP_REMINDER_DAYS]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record that a pickup reminder was sent, so the same reminder day is not sent again.
+ */
+export async function recordPickupReminder(
+  transactionId: string,
+  reminderDay: number,
+  email: string
+): Promise<void> {
+  const client = await getClient();
+  try {
+    await client.query(
+      `
+      INSERT INTO transaction_pickup_reminder (transaction_id, reminder_day, email)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (transaction_id, reminder_day) DO NOTHING
+      `,
+      [transactionId, reminderDay, email]
+    );
   } finally {
     client.release();
   }
 }
 
+/**
+ * Record a delete or restore of a transaction in its trash log.
+ */
+async function recordTrashAction(
+  client: PoolClient,
+  transactionId: string,
+  action: "delete" | "restore",
+  reason?: string | null,
+  performedBy?: string
+): Promise<void> {
+  await client.query(
+    `
+    INSERT INTO transaction_trash_log (transaction_id, action, reason, performed_by)
+    VALUES ($1, $2, $3, $4)
+    `,
+    [transactionId, action, reason || null, performedBy || null]
+  );
+}
+
 /**
  * Retrieve details of a specific invoice by its ID, including a nested list of items.
  * @param {string} invoiceId - The ID of the transaction to retrieve.
@@ -473,7 +2438,7 @@ export async function softDeleteTransactionById(
 export async function getInvoiceById(
   invoiceId: string
 ): Promise<InvoiceDetails | null> {
-  const client = await pool.connect();
+  const client = await getClient();
   try {
     const query = `
       SELECT 
@@ -494,6 +2459,8 @@ export async function getInvoiceById(
               'entry_date', TO_CHAR(t.created_at, 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
               'ready_to_pickup_date', TO_CHAR(t.ready_to_pick_up_at, 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
               'completed_date', TO_CHAR(t.completed_at, 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+              'cancelled_date', TO_CHAR(t.cancelled_at, 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+              'cancel_reason', t.cancel_reason,
               'note', t.note,
               'services', json_agg(
                   json_build_object(
@@ -501,20 +2468,98 @@ export async function getInvoiceById(
                       'unit', ti.service_unit,
                       'price', ti.price,
                       'quantity', ti.qty,
-                      'total_price', ti.qty * ti.price,
+                      'billed_qty', ti.billed_qty,
+                      'total_price', ti.total_price,
+                      'applied_tier', ti.applied_tier,
+                      'addons', (
+                        SELECT COALESCE(
+                          json_agg(
+                            json_build_object(
+                              'name', a.name,
+                              'pricing_type', a.pricing_type,
+                              'price', a.price,
+                              'quantity', a.qty,
+                              'total_price', a.total_price
+                            ) ORDER BY a.created_at
+                          ),
+                          '[]'::json
+                        )
+                        FROM transaction_item_addon a
+                        WHERE a.transaction_item_id = ti.id
+                      ),
                       'duration_id', ti.duration_id,
                       'duration_name', ti.duration_name,
-                      'estimated_date', TO_CHAR(ti.estimated_date, 'YYYY-MM-DD"T"HH24:MI:SS"Z"')
+                      'estimated_date', TO_CHAR(ti.estimated_date, 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+                      'status', ti.status,
+                      'picked_up_date', TO_CHAR(ti.picked_up_at, 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+                      'garments', (
+                        SELECT COALESCE(
+                          json_agg(
+                            json_build_object(
+                              'id', g.id,
+                              'tag_code', g.tag_code,
+                              'type', g.type,
+                              'color', g.color,
+                              'brand', g.brand,
+                              'notes', g.notes
+                            ) ORDER BY g.created_at
+                          ),
+                          '[]'::json
+                        )
+                        FROM transaction_item_garment g
+                        WHERE g.transaction_item_id = ti.id
+                      )
                   )
               ),
-              'subtotal', SUM(ti.price * ti.qty),
+              'addon_total', SUM(ti.addon_total),
+              'subtotal', SUM(ti.total_price + ti.addon_total),
               'discount_name', d.name,
               'discount_type', d.type,
               'discount_value', d.value,
               'discount_amount', COALESCE(t.discount_amount, 0),
-              'total_price', SUM(ti.price * ti.qty) - COALESCE(t.discount_amount, 0),
+              'service_charge_rate', t.service_charge_rate,
+              'service_charge_amount', t.service_charge_amount,
+              'tax_rate', t.tax_rate,
+              'tax_inclusive', t.tax_inclusive,
+              'tax_base', t.tax_base,
+              'tax_amount', t.tax_amount,
+              'storage_fee_days', t.storage_fee_days,
+              'storage_fee_amount', t.storage_fee_amount,
+              'delivery', (
+                  SELECT json_build_object(
+                      'address', td.address,
+                      'address_note', td.address_note,
+                      'pickup_window_start', TO_CHAR(td.pickup_window_start, 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+                      'pickup_window_end', TO_CHAR(td.pickup_window_end, 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+                      'dropoff_window_start', TO_CHAR(td.dropoff_window_start, 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+                      'dropoff_window_end', TO_CHAR(td.dropoff_window_end, 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+                      'courier_name', td.courier_name,
+                      'fee', td.fee
+                  )
+                  FROM transaction_delivery td
+                  WHERE td.transaction_id = t.id
+              ),
+              'total_price', p.total_amount_due,
               'payment_received', p.payment_received,
-              'change_given', p.change_given
+              'change_given', p.change_given,
+              'status', t.status,
+              'status_history', (
+                  SELECT COALESCE(
+                      json_agg(
+                          json_build_object(
+                              'old_status', l.old_status,
+                              'new_status', l.new_status,
+                              'note', l.note,
+                              'changed_by', lu.name,
+                              'changed_at', TO_CHAR(l.created_at, 'YYYY-MM-DD"T"HH24:MI:SS"Z"')
+                          ) ORDER BY l.created_at
+                      ),
+                      '[]'::json
+                  )
+                  FROM transaction_status_log l
+                  LEFT JOIN users lu ON lu.id = l.changed_by
+                  WHERE l.transaction_id = t.id
+              )
           ) as transaction
       FROM transaction t
       LEFT JOIN payment p ON t.id = p.transaction_id
@@ -538,14 +2583,17 @@ export async function getInvoiceById(
 }
 
 /**
- * Generates a unique invoice ID based on a transaction's order and the current date.
+ * Generates a unique invoice ID for a new transaction from the merchant's invoice settings.
  *
- * - The invoice ID format is: `INV-DDMMYYYY.order`
- * - Prefix: `INV`
- * - Date: The current date in DDMMYYYY format
- * - Order: The `order` value retrieved from the `transaction` table for the given transaction ID
+ * - Merchants without invoice settings keep the original format: `INV-{order}{DDMMYYYY}{sequence}`
+ * - Otherwise: `{prefix}-{sequence}.{date}.{counter}`, see `formatInvoiceNumber`
+ * - The counter is taken from invoice_counter in the same statement that increments it,
+ *   so concurrent transactions never receive the same number
+ * - Numbers the merchant already issued are skipped, as they come round again when the
+ *   prefix or reset period changes
  *
  * @param transactionId - The ID of the transaction for which the invoice ID is to be generated.
+ * @param merchantId - The ID of the merchant issuing the invoice.
  * @returns A string representing the unique invoice ID.
  * @throws Will throw an error if the transaction ID does not exist or if the query fails.
  */
@@ -553,23 +2601,10 @@ async function generateInvoiceId(
   transactionId: string,
   merchantId?: string
 ): Promise<string> {
-  const client = await pool.connect();
+  const client = await getClient();
 
   try {
-    const prefix = "INV";
-    const specialUserId = ["9d659c1f-c68f-4f69-9e21-fbcf37432bab", "a6765f71-360a-48c1-9d79-7481067cfe19", "60ac5377-6e91-4f67-a6ef-5edd4ef0d688"];
-
-    // Create a new Date object and convert it to Jakarta time
     const now = new Date();
-    const jakartaTime = new Date(
-      now.toLocaleString("en-US", { timeZone: "Asia/Jakarta" })
-    );
-    const formattedDate = `${jakartaTime
-      .getDate()
-      .toString()
-      .padStart(2, "0")}${(jakartaTime.getMonth() + 1)
-      .toString()
-      .padStart(2, "0")}${jakartaTime.getFullYear()}`;
 
     // Query to fetch order and merchant sequence_id in one go
     const query = `
@@ -588,14 +2623,36 @@ async function generateInvoiceId(
     }
 
     const { order, sequence_id: merchantSeqId } = rows[0];
+    const settings = await getMerchantSettings(merchantId as string);
 
-    // Check if user is special user
-    if (specialUserId.includes(merchantId as string)) {
-      const formattedOrder = order.toString().padStart(4, "0");
-      return `${prefix}-${merchantSeqId}.${formattedOrder}`;
+    if (!settings.invoice_prefix) {
+      const local = new Date(now.getTime() + getTimezoneOffset(settings.timezone) * 60 * 1000);
+      const [year, month, day] = local.toISOString().slice(0, 10).split("-");
+      return `INV-${order}${day}${month}${year}${merchantSeqId}`;
     }
 
-    return `${prefix}-${order}${formattedDate}${merchantSeqId}`;
+    let invoiceId: string;
+    let issued: boolean;
+    do {
+      const { rows: counterRows } = await client.query(
+        `
+        INSERT INTO invoice_counter (merchant_id, period, last_value)
+        VALUES ($1, $2, 1)
+        ON CONFLICT (merchant_id, period) DO UPDATE SET last_value = invoice_counter.last_value + 1
+        RETURNING last_value
+        `,
+        [merchantId, getInvoicePeriod(settings, now)]
+      );
+      invoiceId = formatInvoiceNumber(settings, merchantSeqId, counterRows[0].last_value, now);
+
+      const { rowCount } = await client.query(
+        `SELECT 1 FROM payment WHERE merchant_id = $1 AND invoice_id = $2`,
+        [merchantId, invoiceId]
+      );
+      issued = Boolean(rowCount);
+    } while (issued);
+
+    return invoiceId;
   } catch (error) {
     console.error("Error generating invoice ID:", error);
     throw error;
@@ -1,18 +1,59 @@
 import express, { Request, Response } from "express";
-import { transactionSchema } from "./types";
+import multer from "multer";
 import {
+  garmentsSchema,
+  transactionBulkStatusSchema,
+  transactionCancelSchema,
+  transactionItemParamsSchema,
+  transactionItemStatusSchema,
+  transactionItemsUpdateSchema,
+  transactionPhotoSchema,
+  transactionPickupSchema,
+  transactionSchema,
+  transactionTrashSchema,
+} from "./types";
+import {
+  accrueStorageFees,
   addTransaction,
+  addTransactionItemGarments,
+  addTransactionPhotos,
+  bulkUpdateTransactionStatus,
+  cancelTransaction,
+  getCapacityOverview,
+  deleteExpiredTransactionPhotos,
+  deleteTransactionGarment,
+  deleteTransactionPhoto,
+  getGarmentByTagCode,
   getInvoiceById,
+  getTransactionBoard,
   getTransactionById,
   getTransactions,
+  getDeletedTransactions,
+  getOverdueTransactions,
+  getTransactionStatusHistory,
+  purgeDeletedTransactions,
+  restoreTransactionById,
   softDeleteTransactionById,
   updateTransaction,
+  updateTransactionItems,
+  updateTransactionItemStatus,
 } from "./controller";
+import { createTrackingLink } from "../track/controller";
 import { AuthenticatedRequest } from "../../middlewares";
+import { requireCronToken } from "../../middlewares/cron";
+import { idempotent } from "../../middlewares/idempotency";
+import { scopeToMerchant } from "../../middlewares/tenant";
 import { formatJoiError } from "../../utils";
+import { differenceInDays, format, isValid, parseISO } from "date-fns";
 
 const router = express.Router();
 
+// Condition photos are kept in memory until they are handed to Supabase storage
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024, files: 10 },
+});
+
 
 
 router.get("/", async (req: AuthenticatedRequest, res: Response) => {
@@ -20,6 +61,7 @@ router.get("/", async (req: AuthenticatedRequest, res: Response) => {
     const {
       status,
       filter,
+      search,
       date_from,
       date_to,
       page = "1",
@@ -48,7 +90,8 @@ router.get("/", async (req: AuthenticatedRequest, res: Response) => {
       (date_to as string) || null,
       req.userId,
       pageNumber,
-      limitNumber
+      limitNumber,
+      (search as string)?.trim() || null
     );
 
     const isFirstPage = pageNumber === 1;
@@ -65,7 +108,7 @@ router.get("/", async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
-router.post("/", async (req: AuthenticatedRequest, res) => {
+router.post("/", idempotent, async (req: AuthenticatedRequest, res) => {
   const { error } = transactionSchema.validate(req.body);
   if (error) {
     const message = formatJoiError(error);
@@ -80,6 +123,12 @@ router.post("/", async (req: AuthenticatedRequest, res) => {
       data: newTransaction,
     });
   } catch (error) {
+    if (error instanceof Error && error.message.includes("tidak ditemukan")) {
+      return res.status(400).json({ status: "error", message: error.message });
+    }
+    if (error instanceof Error && error.message.startsWith("Kapasitas harian")) {
+      return res.status(409).json({ status: "error", message: error.message });
+    }
     console.log(error);
     res
       .status(500)
@@ -87,11 +136,220 @@ router.post("/", async (req: AuthenticatedRequest, res) => {
   }
 });
 
-router.delete("/:id", async (req: AuthenticatedRequest, res) => {
+router.get("/tag/:code", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const garment = await getGarmentByTagCode(req.params.code, req.userId);
+
+    if (garment) {
+      res.status(200).json(garment);
+    } else {
+      res
+        .status(404)
+        .json({ status: "error", message: "Label tidak ditemukan" });
+    }
+  } catch (error) {
+    console.log(error);
+    res.status(500).json({ message: "Gagal mencari label" });
+  }
+});
+
+router.post("/bulk-status", async (req: AuthenticatedRequest, res: Response) => {
+  const { error, value } = transactionBulkStatusSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    const message = formatJoiError(error);
+    return res.status(400).json({ message: message });
+  }
+
+  try {
+    const results = await bulkUpdateTransactionStatus(
+      value.invoice_ids,
+      value.status,
+      value.note,
+      req.userId as string
+    );
+    res.status(200).json({
+      status: "success",
+      message: "Status transaksi berhasil diproses",
+      updated: results.filter((result) => result.result === "updated").length,
+      results,
+    });
+  } catch (error) {
+    console.log(error);
+    res.status(500).json({ status: "error", message: "Gagal mengubah status transaksi" });
+  }
+});
+
+router.get("/board", async (req: AuthenticatedRequest, res: Response) => {
+  const limit = parseInt((req.query.limit as string) || "50", 10);
+  if (isNaN(limit) || limit < 1 || limit > 200) {
+    return res.status(400).json({ message: "Invalid limit value" });
+  }
+
+  try {
+    const columns = await getTransactionBoard(req.userId as string, limit);
+    res.status(200).json({ columns });
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({ message: err.message });
+  }
+});
+
+router.get("/capacity", async (req: AuthenticatedRequest, res: Response) => {
+  const { from, to } = req.query;
+  if (!from || !to) {
+    return res.status(400).json({ message: "from dan to wajib diisi." });
+  }
+
+  const fromDate = parseISO(from as string);
+  const toDate = parseISO(to as string);
+  if (!isValid(fromDate) || !isValid(toDate)) {
+    return res.status(400).json({ message: "Format tanggal tidak valid." });
+  }
+  if (differenceInDays(toDate, fromDate) < 0 || differenceInDays(toDate, fromDate) > 92) {
+    return res.status(400).json({ message: "Rentang tanggal maksimal 92 hari." });
+  }
+
+  try {
+    const days = await getCapacityOverview(
+      req.userId as string,
+      format(fromDate, "yyyy-MM-dd"),
+      format(toDate, "yyyy-MM-dd")
+    );
+    res.status(200).json({ days });
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({ message: err.message });
+  }
+});
+
+router.get("/overdue", async (req: AuthenticatedRequest, res: Response) => {
+  const pageNumber = parseInt((req.query.page as string) || "1", 10);
+  const limitNumber = parseInt((req.query.limit as string) || "10", 10);
+
+  if (isNaN(pageNumber) || pageNumber < 1 || isNaN(limitNumber) || limitNumber < 1) {
+    return res.status(400).json({ message: "Invalid page or limit values" });
+  }
+
+  try {
+    const { transactions, totalCount } = await getOverdueTransactions(
+      req.userId,
+      pageNumber,
+      limitNumber
+    );
+
+    const isFirstPage = pageNumber === 1;
+    const isLastPage = pageNumber * limitNumber >= totalCount;
+    res.json({
+      transactions,
+      totalCount,
+      isFirstPage,
+      isLastPage,
+    });
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({ message: err.message });
+  }
+});
+
+router.get("/trash", async (req: AuthenticatedRequest, res: Response) => {
+  const pageNumber = parseInt((req.query.page as string) || "1", 10);
+  const limitNumber = parseInt((req.query.limit as string) || "10", 10);
+
+  if (isNaN(pageNumber) || pageNumber < 1 || isNaN(limitNumber) || limitNumber < 1) {
+    return res.status(400).json({ message: "Invalid page or limit values" });
+  }
+
+  try {
+    const { transactions, totalCount } = await getDeletedTransactions(
+      req.userId,
+      pageNumber,
+      limitNumber
+    );
+
+    const isFirstPage = pageNumber === 1;
+    const isLastPage = pageNumber * limitNumber >= totalCount;
+    res.json({
+      transactions,
+      totalCount,
+      isFirstPage,
+      isLastPage,
+    });
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({ message: err.message });
+  }
+});
+
+router.get("/purge-trash", requireCronToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const purged = await purgeDeletedTransactions();
+    res.status(200).json({ message: "Trash purged", purged });
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({ message: err.message });
+  }
+});
+
+router.get("/storage-fees", requireCronToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const updated = await accrueStorageFees();
+    res.status(200).json({ message: "Storage fees accrued", updated });
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({ message: err.message });
+  }
+});
+
+router.get("/photo-cleanup", requireCronToken, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const deleted = await deleteExpiredTransactionPhotos();
+    res.status(200).json({ message: "Expired photos deleted", deleted });
+  } catch (error) {
+    const err = error as Error;
+    res.status(500).json({ message: err.message });
+  }
+});
+
+router.post("/:id/restore", async (req: AuthenticatedRequest, res) => {
+  const { error, value } = transactionTrashSchema.validate(req.body || {}, { abortEarly: false });
+  if (error) {
+    const message = formatJoiError(error);
+    return res.status(400).json({ message: message });
+  }
+
+  try {
+    const restored = await restoreTransactionById(req.params.id, req.userId, value.reason, req.userId);
+    if (!restored) {
+      return res.status(404).json({
+        status: "error",
+        message: "Transaksi tidak ditemukan di tempat sampah",
+      });
+    }
+
+    res.status(200).json({
+      status: "success",
+      message: "Transaksi berhasil dipulihkan",
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({
+      status: "error",
+      message: "Gagal memulihkan transaksi",
+    });
+  }
+});
+
+router.delete("/:id", scopeToMerchant("transaction"), async (req: AuthenticatedRequest, res) => {
   const { id } = req.params;
 
+  const { error, value } = transactionTrashSchema.validate(req.body || {}, { abortEarly: false });
+  if (error) {
+    const message = formatJoiError(error);
+    return res.status(400).json({ message: message });
+  }
+
   try {
-    const deletedTransaction = await softDeleteTransactionById(id);
+    const deletedTransaction = await softDeleteTransactionById(id, value.reason, req.userId);
     if (!deletedTransaction) {
       return res.status(404).json({
         status: "error",
@@ -112,19 +370,26 @@ router.delete("/:id", async (req: AuthenticatedRequest, res) => {
   }
 });
 
-router.put("/:invoiceId", async (req, res) => {
+router.put("/:invoiceId", scopeToMerchant("invoice", "invoiceId"), async (req: AuthenticatedRequest, res) => {
   if (!req.body || typeof req.body.status !== "string") {
     return res
       .status(400)
       .json({ message: 'Invalid request. "status" field is required.' });
   }
 
+  if (req.body.status === "Dibatalkan") {
+    return res
+      .status(400)
+      .json({ message: "Gunakan endpoint pembatalan untuk membatalkan transaksi." });
+  }
+
   try {
     const invoiceId = req.params.invoiceId;
     const updatedTransaction = await updateTransaction(
       req.body.status,
       req.body.note,
-      invoiceId
+      invoiceId,
+      req.userId
     );
 
     if (updatedTransaction) {
@@ -140,12 +405,333 @@ router.put("/:invoiceId", async (req, res) => {
       });
     }
   } catch (error) {
+    if (error instanceof Error && error.message.includes("dibatalkan")) {
+      return res.status(409).json({ status: "error", message: error.message });
+    }
     console.log(error);
     res.status(500).json({ message: "Gagal membuat layanan" });
   }
 });
 
-router.get("/:invoiceId", async (req: Request, res: Response) => {
+router.post("/:invoiceId/cancel", scopeToMerchant("invoice", "invoiceId"), async (req: AuthenticatedRequest, res) => {
+  const { error, value } = transactionCancelSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    const message = formatJoiError(error);
+    return res.status(400).json({ message: message });
+  }
+
+  try {
+    const cancelledTransaction = await cancelTransaction(
+      req.params.invoiceId,
+      value.reason,
+      req.userId
+    );
+
+    if (!cancelledTransaction) {
+      return res.status(404).json({
+        status: "error",
+        message: "Transaksi tidak ditemukan",
+      });
+    }
+
+    res.status(200).json({
+      status: "success",
+      message: "Transaksi berhasil dibatalkan",
+      data: cancelledTransaction,
+    });
+  } catch (error) {
+    if (error instanceof Error && (error.message.includes("dibatalkan") || error.message.includes("selesai"))) {
+      return res.status(409).json({ status: "error", message: error.message });
+    }
+    console.log(error);
+    res.status(500).json({ status: "error", message: "Gagal membatalkan transaksi" });
+  }
+});
+
+router.put("/:invoiceId/items", scopeToMerchant("invoice", "invoiceId"), async (req: AuthenticatedRequest, res) => {
+  const { error, value } = transactionItemsUpdateSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    const message = formatJoiError(error);
+    return res.status(400).json({ message: message });
+  }
+
+  try {
+    const updatedTransaction = await updateTransactionItems(
+      req.params.invoiceId,
+      value.items,
+      value.adjustment_note,
+      req.userId
+    );
+
+    if (!updatedTransaction) {
+      return res.status(404).json({
+        status: "error",
+        message: "Transaksi tidak ditemukan",
+      });
+    }
+
+    res.status(200).json({
+      status: "success",
+      message: "Item transaksi berhasil diperbarui",
+      data: updatedTransaction,
+    });
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message.includes("lunas") ||
+        error.message.includes("dibatalkan") ||
+        error.message.includes("sudah diambil"))
+    ) {
+      return res.status(409).json({ status: "error", message: error.message });
+    }
+    if (error instanceof Error && error.message.includes("tidak ditemukan")) {
+      return res.status(400).json({ status: "error", message: error.message });
+    }
+    console.log(error);
+    res.status(500).json({ status: "error", message: "Gagal memperbarui item transaksi" });
+  }
+});
+
+router.put("/:invoiceId/items/:itemId/status", scopeToMerchant("invoice", "invoiceId"), async (req: AuthenticatedRequest, res) => {
+  const { error: paramsError } = transactionItemParamsSchema.validate(req.params);
+  if (paramsError) {
+    const message = formatJoiError(paramsError);
+    return res.status(400).json({ message: message });
+  }
+
+  const { error, value } = transactionItemStatusSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    const message = formatJoiError(error);
+    return res.status(400).json({ message: message });
+  }
+
+  try {
+    const updatedTransaction = await updateTransactionItemStatus(
+      req.params.invoiceId,
+      [req.params.itemId],
+      value.status,
+      value.note,
+      req.userId
+    );
+
+    if (!updatedTransaction) {
+      return res.status(404).json({
+        status: "error",
+        message: "Transaksi tidak ditemukan",
+      });
+    }
+
+    res.status(200).json({
+      status: "success",
+      message: "Status item berhasil diperbarui",
+      data: updatedTransaction,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("tidak ditemukan")) {
+      return res.status(404).json({ status: "error", message: error.message });
+    }
+    if (error instanceof Error && (error.message.includes("dibatalkan") || error.message.includes("belum siap"))) {
+      return res.status(409).json({ status: "error", message: error.message });
+    }
+    console.log(error);
+    res.status(500).json({ status: "error", message: "Gagal memperbarui status item" });
+  }
+});
+
+router.post("/:invoiceId/pickup", scopeToMerchant("invoice", "invoiceId"), async (req: AuthenticatedRequest, res) => {
+  const { error, value } = transactionPickupSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    const message = formatJoiError(error);
+    return res.status(400).json({ message: message });
+  }
+
+  try {
+    const updatedTransaction = await updateTransactionItemStatus(
+      req.params.invoiceId,
+      value.item_ids,
+      "Diambil",
+      value.note,
+      req.userId
+    );
+
+    if (!updatedTransaction) {
+      return res.status(404).json({
+        status: "error",
+        message: "Transaksi tidak ditemukan",
+      });
+    }
+
+    res.status(200).json({
+      status: "success",
+      message: "Item berhasil diambil",
+      data: updatedTransaction,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("tidak ditemukan")) {
+      return res.status(404).json({ status: "error", message: error.message });
+    }
+    if (error instanceof Error && (error.message.includes("dibatalkan") || error.message.includes("belum siap"))) {
+      return res.status(409).json({ status: "error", message: error.message });
+    }
+    console.log(error);
+    res.status(500).json({ status: "error", message: "Gagal memproses pengambilan item" });
+  }
+});
+
+router.post("/:invoiceId/items/:itemId/garments", scopeToMerchant("invoice", "invoiceId"), async (req: AuthenticatedRequest, res) => {
+  const { error, value } = garmentsSchema.validate(req.body, { abortEarly: false });
+  if (error) {
+    const message = formatJoiError(error);
+    return res.status(400).json({ message: message });
+  }
+
+  try {
+    const garments = await addTransactionItemGarments(
+      req.params.invoiceId,
+      req.params.itemId,
+      value.garments
+    );
+
+    if (!garments) {
+      return res.status(404).json({
+        status: "error",
+        message: "Item transaksi tidak ditemukan",
+      });
+    }
+
+    res.status(201).json({
+      status: "success",
+      message: "Pakaian berhasil ditambahkan",
+      data: garments,
+    });
+  } catch (error) {
+    console.log(error);
+    res.status(500).json({ status: "error", message: "Gagal menambahkan pakaian" });
+  }
+});
+
+router.delete("/:invoiceId/garments/:garmentId", scopeToMerchant("invoice", "invoiceId"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await deleteTransactionGarment(req.params.invoiceId, req.params.garmentId);
+    if (!deleted) {
+      return res.status(404).json({
+        status: "error",
+        message: "Pakaian tidak ditemukan",
+      });
+    }
+
+    res.status(200).json({
+      status: "success",
+      message: "Pakaian berhasil dihapus",
+    });
+  } catch (error) {
+    console.log(error);
+    res.status(500).json({ status: "error", message: "Gagal menghapus pakaian" });
+  }
+});
+
+router.post(
+  "/:invoiceId/photos",
+  scopeToMerchant("invoice", "invoiceId"),
+  upload.array("files", 10),
+  async (req: AuthenticatedRequest, res) => {
+    const { error, value } = transactionPhotoSchema.validate(req.body, { abortEarly: false });
+    if (error) {
+      const message = formatJoiError(error);
+      return res.status(400).json({ message: message });
+    }
+
+    const files = (req.files as Express.Multer.File[]) || [];
+    if (files.length === 0) {
+      return res.status(400).json({ message: "Tidak ada file yang diunggah" });
+    }
+    if (files.some((file) => !file.mimetype.startsWith("image/"))) {
+      return res.status(400).json({ message: "File harus berupa gambar" });
+    }
+
+    try {
+      const photos = await addTransactionPhotos(req.params.invoiceId, files, value);
+      if (!photos) {
+        return res.status(404).json({
+          status: "error",
+          message: "Transaksi tidak ditemukan",
+        });
+      }
+
+      res.status(201).json({
+        status: "success",
+        message: "Foto berhasil diunggah",
+        data: photos,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("Pakaian tidak ditemukan")) {
+        return res.status(400).json({ status: "error", message: error.message });
+      }
+      console.log(error);
+      res.status(500).json({ status: "error", message: "Gagal mengunggah foto" });
+    }
+  }
+);
+
+router.delete("/:invoiceId/photos/:photoId", scopeToMerchant("invoice", "invoiceId"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await deleteTransactionPhoto(req.params.invoiceId, req.params.photoId);
+    if (!deleted) {
+      return res.status(404).json({
+        status: "error",
+        message: "Foto tidak ditemukan",
+      });
+    }
+
+    res.status(200).json({
+      status: "success",
+      message: "Foto berhasil dihapus",
+    });
+  } catch (error) {
+    console.log(error);
+    res.status(500).json({ status: "error", message: "Gagal menghapus foto" });
+  }
+});
+
+router.post("/:invoiceId/tracking-link", async (req: AuthenticatedRequest, res) => {
+  try {
+    const link = await createTrackingLink(req.params.invoiceId, req.userId);
+    if (!link) {
+      return res.status(404).json({
+        status: "error",
+        message: "Transaksi tidak ditemukan",
+      });
+    }
+
+    res.status(201).json({
+      status: "success",
+      message: "Tautan pelacakan berhasil dibuat",
+      data: link,
+    });
+  } catch (error) {
+    console.log(error);
+    res.status(500).json({ status: "error", message: "Gagal membuat tautan pelacakan" });
+  }
+});
+
+router.get("/:invoiceId/history", scopeToMerchant("invoice", "invoiceId"), async (req: Request, res: Response) => {
+  try {
+    const history = await getTransactionStatusHistory(req.params.invoiceId);
+
+    if (history) {
+      res.status(200).json(history);
+    } else {
+      res
+        .status(404)
+        .json({ status: "error", message: "Transaksi tidak ditemukan" });
+    }
+  } catch (error) {
+    console.log(error);
+    res.status(500).json({ message: "Gagal mengambil riwayat transaksi" });
+  }
+});
+
+router.get("/:invoiceId", scopeToMerchant("invoice", "invoiceId"), async (req: Request, res: Response) => {
   try {
     const invoiceId = req.params.invoiceId;
     const transaction = await getTransactionById(invoiceId);
@@ -162,7 +748,7 @@ router.get("/:invoiceId", async (req: Request, res: Response) => {
   }
 });
 
-router.get("/invoice/:invoiceId", async (req: Request, res: Response) => {
+router.get("/invoice/:invoiceId", scopeToMerchant("invoice", "invoiceId"), async (req: Request, res: Response) => {
   try {
     const invoiceId = req.params.invoiceId;
     const transaction = await getInvoiceById(invoiceId);
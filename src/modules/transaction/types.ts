@@ -1,9 +1,102 @@
 const Joi = require("joi");
-interface TransactionItemDetail {
+import { PriceTier } from "../services/types";
+import { Delivery } from "../delivery/types";
+
+export interface GarmentInput {
+  type: string;
+  color?: string;
+  brand?: string;
+  notes?: string;
+}
+
+export interface Garment extends GarmentInput {
+  id: string;
+  transaction_item_id: string;
+  tag_code: string;
+  created_at: Date;
+}
+
+export type PhotoStage = "intake" | "pickup";
+
+export interface TransactionPhotoInput {
+  stage: PhotoStage;
+  garment_id?: string | null;
+  note?: string | null;
+}
+
+export interface TransactionPhoto {
+  id: string;
+  stage: PhotoStage;
+  garment_id: string | null;
+  url: string;
+  note: string | null;
+  created_at: Date;
+}
+
+export interface GarmentLookup {
+  id: string;
+  tag_code: string;
+  type: string;
+  color: string | null;
+  brand: string | null;
+  notes: string | null;
+  invoice: string;
+  transaction_id: string;
+  customer_name: string;
+  customer_phone_number: string;
+  transaction_status: string;
+  item_id: string;
+  service_name: string;
+  item_status: string;
+}
+
+export interface TransactionItemAddonInput {
+  addon: string;
+}
+
+export interface TransactionItemAddon {
+  id: string;
+  addon_id: string | null;
+  name: string;
+  pricing_type: string;
+  price: number;
+  qty: number;
+  total_price: number;
+}
+
+interface TransactionItemRequest {
   service: string;
   service_name: string;
   qty: number;
   duration: string;
+  garments?: GarmentInput[];
+  addons?: TransactionItemAddonInput[];
+}
+
+export type TransactionItemStatus = "Diproses" | "Siap Diambil" | "Diambil";
+
+export interface TransactionItemInput {
+  id?: string;
+  service: string;
+  duration: string;
+  qty: number;
+  addons?: TransactionItemAddonInput[];
+}
+
+export interface TransactionItemDetail {
+  service_id: string;
+  service_name: string;
+  service_unit: string;
+  price: number;
+  qty: number;
+  duration_id?: string;
+  duration_name?: string;
+  duration_length?: number;
+  duration_length_type?: string;
+  estimated_date?: Date;
+  billed_qty: number;
+  total_price: number;
+  applied_tier: PriceTier | null;
 }
 
 export interface Transaction {
@@ -11,29 +104,145 @@ export interface Transaction {
   customer: string;
   customer_name: string;
   duration_name: string;
-  status: "Diproses" | "Selesai" | "Siap Diambil";
-  items?: TransactionItemDetail[];
+  status: "Diproses" | "Selesai" | "Siap Diambil" | "Dibatalkan";
+  items?: TransactionItemRequest[];
   total?: number;
   note?: string;
   discount_id?: string;
 }
+// Item of a new order: the service snapshot is resolved from the service and duration IDs
+export interface NewTransactionItem extends TransactionItemInput {
+  garments?: GarmentInput[];
+}
+
+// What addTransaction needs for a new order; the customer snapshot is copied from the customer record
+export interface TransactionInput {
+  customer: string;
+  status: Transaction["status"];
+  note?: string;
+  discount_id?: string;
+  items?: NewTransactionItem[];
+}
+
 export interface TransactionData {
   id: string;
   customer: string;
   payment_status: string;
   invoice: string;
-  status: "Diproses" | "Selesai" | "Siap Diambil";
+  status: "Diproses" | "Selesai" | "Siap Diambil" | "Dibatalkan";
   created_at: Date;
   estimated_date: Date;
   ready_to_pick_up_at: Date | null;
   completed_at: Date | null;
+  cancelled_at: Date | null;
+  cancel_reason: string | null;
+  is_overdue: boolean;
+  minutes_late: number;
+}
+
+export interface OverdueTransaction {
+  id: string;
+  customer: string;
+  customer_phone_number: string;
+  invoice: string;
+  payment_status: string;
+  status: string;
+  created_at: Date;
+  estimated_date: Date;
+  minutes_late: number;
+}
+
+// A day and unit where a new order pushes the scheduled load over the merchant's capacity
+export interface CapacityWarning {
+  date: string;
+  unit: string;
+  capacity: number;
+  scheduled: number;
+  requested: number;
+}
+
+export interface UnitLoad {
+  unit: string;
+  capacity: number | null;
+  scheduled: number;
+  remaining: number | null;
+  utilization: number | null; // Percentage of the capacity already scheduled
+}
+
+export interface DailyLoad {
+  date: string;
+  units: UnitLoad[];
+}
+
+export interface BulkStatusResult {
+  invoice: string;
+  result: "updated" | "unchanged" | "not_found" | "cancelled" | "error";
+  old_status?: string;
+  message?: string;
+}
+
+export interface BoardOrder {
+  id: string;
+  invoice: string;
+  customer: string;
+  customer_phone_number: string;
+  status: string;
+  payment_status: string;
+  total: number;
+  created_at: Date;
+  estimated_date: Date | null;
+  is_due_today: boolean;
+  is_overdue: boolean;
+  minutes_late: number;
+}
+
+export interface BoardColumn {
+  status: string;
+  count: number;
+  due_today: number;
+  overdue: number;
+  orders: BoardOrder[];
+}
+
+export interface PickupReminderCandidate {
+  transaction_id: string;
+  merchant_id: string;
+  customer_name: string;
+  customer_email: string;
+  ready_to_pick_up_at: Date;
+  storage_fee_amount: number;
+  invoice_id: string;
+  total_amount_due: number;
+  merchant_name: string;
+  merchant_phone_number: string | null;
+  reminder_day: number;
+}
+
+export interface DeletedTransaction {
+  id: string;
+  invoice: string;
+  customer_name: string;
+  status: string;
+  payment_status: string;
+  total: number;
+  created_at: Date;
+  deleted_at: Date;
+  deleted_by: string | null;
+  deleted_by_name: string | null;
+  delete_reason: string | null;
+  purge_at: Date;
 }
 
 export interface ServiceDetail {
+  id: string;
   service_id: string;
   service_name: string;
   price: number;
   quantity: number;
+  status: TransactionItemStatus;
+  ready_at: Date | null;
+  picked_up_at: Date | null;
+  garments: Garment[];
 }
 
 export interface TransactionDetails {
@@ -48,14 +257,56 @@ export interface TransactionDetails {
   discount_type: string | null;
   discount_value: number | null;
   discount_amount: number;
+  service_charge_rate: number;
+  service_charge_amount: number;
+  tax_rate: number;
+  tax_inclusive: boolean;
+  tax_base: number;
+  tax_amount: number;
+  storage_fee_days: number;
+  storage_fee_amount: number;
+  delivery: Omit<Delivery, "transaction_id" | "created_at" | "updated_at"> | null;
   total: number;
   payment_id: number;
   payment_status: string;
   payment_method: string;
   invoice: string;
   services: ServiceDetail[];
+  photos: TransactionPhoto[];
 }
 
+const garmentSchema = Joi.object({
+  type: Joi.string().required().messages({
+    'string.empty': 'Jenis pakaian wajib diisi',
+    'any.required': 'Jenis pakaian wajib diisi',
+  }),
+  color: Joi.string().allow('', null).optional(),
+  brand: Joi.string().allow('', null).optional(),
+  notes: Joi.string().allow('', null).optional(),
+});
+
+const itemAddonSchema = Joi.object({
+  addon: Joi.string().uuid().required().messages({
+    'string.guid': 'Add-on tidak valid',
+    'any.required': 'Add-on wajib diisi',
+  }),
+});
+
+export const garmentsSchema = Joi.object({
+  garments: Joi.array().items(garmentSchema).min(1).required(),
+});
+
+export const transactionPhotoSchema = Joi.object({
+  stage: Joi.string().valid("intake", "pickup").required().messages({
+    'any.only': 'Tahap foto harus intake atau pickup',
+    'any.required': 'Tahap foto wajib diisi',
+  }),
+  garment_id: Joi.string().uuid().allow('', null).optional().messages({
+    'string.guid': 'Pakaian tidak valid',
+  }),
+  note: Joi.string().allow('', null).optional(),
+});
+
 export const transactionSchema = Joi.object({
   customer: Joi.string().uuid().required(),
   note: Joi.string().allow(''),
@@ -67,9 +318,69 @@ export const transactionSchema = Joi.object({
         service: Joi.string().uuid().required(),
         duration: Joi.string().uuid().required(),
         qty: Joi.number().required(),
+        garments: Joi.array().items(garmentSchema).optional(),
+        addons: Joi.array().items(itemAddonSchema).optional(),
+      })
+    )
+    .required(),
+});
+
+export const transactionItemsUpdateSchema = Joi.object({
+  items: Joi.array()
+    .items(
+      Joi.object({
+        id: Joi.string().uuid().optional(),
+        service: Joi.string().uuid().required(),
+        duration: Joi.string().uuid().required(),
+        qty: Joi.number().positive().required(),
+        addons: Joi.array().items(itemAddonSchema).optional(),
       })
     )
+    .min(1)
     .required(),
+  adjustment_note: Joi.string().allow('', null).optional(),
+});
+
+export const transactionItemParamsSchema = Joi.object({
+  itemId: Joi.string().uuid().required().messages({
+    'string.guid': 'ID item harus berupa UUID',
+  }),
+}).unknown(true);
+
+export const transactionItemStatusSchema = Joi.object({
+  status: Joi.string().valid("Diproses", "Siap Diambil", "Diambil").required(),
+  note: Joi.string().allow('', null).optional(),
+});
+
+export const transactionPickupSchema = Joi.object({
+  item_ids: Joi.array().items(Joi.string().uuid()).min(1).required(),
+  note: Joi.string().allow('', null).optional(),
+});
+
+export const transactionCancelSchema = Joi.object({
+  reason: Joi.string().trim().required().messages({
+    'string.empty': 'Alasan pembatalan wajib diisi',
+    'any.required': 'Alasan pembatalan wajib diisi',
+  }),
+});
+
+export const transactionTrashSchema = Joi.object({
+  reason: Joi.string().allow('', null).optional(),
+});
+
+export const transactionBulkStatusSchema = Joi.object({
+  invoice_ids: Joi.array().items(Joi.string().trim().required()).min(1).max(200).unique().required().messages({
+    'array.base': 'Daftar invoice harus berupa array',
+    'array.min': 'Daftar invoice wajib diisi',
+    'array.max': 'Maksimal 200 invoice sekali ubah',
+    'array.unique': 'Invoice tidak boleh sama',
+    'any.required': 'Daftar invoice wajib diisi',
+  }),
+  status: Joi.string().valid("Diproses", "Selesai", "Siap Diambil").required().messages({
+    'any.only': 'Status tidak valid, gunakan endpoint pembatalan untuk membatalkan transaksi',
+    'any.required': 'Status wajib diisi',
+  }),
+  note: Joi.string().allow('', null).optional(),
 });
 
 export const transactionUpdateSchema = Joi.object({
@@ -81,6 +392,7 @@ interface InvoiceMerchant {
   logo: string;
   address: string;
   note: string | null;
+  phone_number: string;
 }
 
 interface InvoiceCustomer {
@@ -90,33 +402,93 @@ interface InvoiceCustomer {
   email: string;
 }
 
+interface InvoiceAddon {
+  name: string;
+  pricing_type: string;
+  price: number;
+  quantity: number;
+  total_price: number;
+}
+
 interface InvoiceService {
   service_name: string;
+  unit: string;
   price: number;
   quantity: number;
+  billed_qty: number;
   total_price: number;
+  applied_tier: PriceTier | null;
+  duration_name: string | null;
+  estimated_date: string | null;
+  status: TransactionItemStatus;
+  picked_up_date: string | null;
+  garments: Garment[];
+  addons: InvoiceAddon[];
+}
+
+export interface TransactionStatusLog {
+  id: string;
+  old_status: string | null;
+  new_status: string;
+  note: string | null;
+  changed_by: string | null;
+  changed_by_name: string | null;
+  created_at: Date;
 }
 
-interface InvoiceTransaction {
+interface InvoiceDelivery {
+  address: string;
+  address_note: string | null;
+  pickup_window_start: string | null;
+  pickup_window_end: string | null;
+  dropoff_window_start: string | null;
+  dropoff_window_end: string | null;
+  courier_name: string | null;
+  fee: number;
+}
+
+interface InvoiceStatusHistory {
+  old_status: string | null;
+  new_status: string;
+  note: string | null;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+export interface InvoiceTransaction {
   entry_date: string; // or Date, depending on how you handle dates
   ready_to_pickup_date: string | null; // nullable if not always available
   completed_date: string | null;
-  duration: string;
+  cancelled_date: string | null;
+  cancel_reason: string | null;
+  note: string | null;
   services: InvoiceService[];
+  addon_total: number;
   subtotal: number;
   discount_name: string | null;
   discount_type: string | null;
   discount_value: number | null;
   discount_amount: number;
+  service_charge_rate: number;
+  service_charge_amount: number;
+  tax_rate: number;
+  tax_inclusive: boolean;
+  tax_base: number;
+  tax_amount: number;
+  storage_fee_days: number;
+  storage_fee_amount: number;
+  delivery: InvoiceDelivery | null;
   total_price: number;
   payment_received: number;
   change_given: number;
+  status: string;
+  status_history: InvoiceStatusHistory[];
 }
 
 export interface InvoiceDetails {
   merchant: InvoiceMerchant;
   customer: InvoiceCustomer;
-  transaction: Transaction;
+  transaction: InvoiceTransaction;
 }
 
 export interface TransactionQuery {
@@ -1,4 +1,4 @@
-import express, { Request, Response } from "express";
+import express, { Response } from "express";
 import multer from "multer";
 import {
   checkUserSubscriptions,
@@ -20,6 +20,7 @@ import {
 } from "./controller"; // Assuming you have this function
 import supabase from "../../database/supabase";
 import { AuthenticatedRequest } from "../../middlewares";
+import { requireCronToken } from "../../middlewares/cron";
 import { createSubscriptions, getSubsPlanByCode, getSubsPlanById } from "../auth/controller";
 
 const router = express.Router();
@@ -93,10 +94,15 @@ router.get("/details", async (req: AuthenticatedRequest, res: Response) => {
 });
 
 
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
   const { id } = req.params;
   const { name, email, phone_number, address, logo } = req.body;
 
+  // A merchant may only edit their own profile
+  if (id !== req.userId) {
+    return res.status(404).json({ message: 'Pengguna tidak ditemukan' });
+  }
+
   // Validate required fields
   if (!name || !email) {
     return res.status(400).json({ message: 'Nama dan email diperlukan' });
@@ -169,13 +175,8 @@ router.get("/delete-temp-files", async (req: AuthenticatedRequest, res: Response
   }
 });
 
-router.get("/check-subscriptions", async (req: AuthenticatedRequest, res: Response) => {
+router.get("/check-subscriptions", requireCronToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const token = req.headers["cron-job-token"];
-    if (token !== process.env.crToken) {
-      return res.status(403).json({ message: "Forbidden: Invalid token" });
-    }
-
     await checkUserSubscriptions();
     res.status(200).json({ message: "Subscriptions checked and notifications sent" });
   } catch (error) {
@@ -369,12 +370,8 @@ router.post(
 
 router.post(
   "/invoice-update",
+  requireCronToken,
   async (req: AuthenticatedRequest, res: Response) => {
-    const token = req.headers["cron-job-token"];
-    if (token !== process.env.crToken) {
-      return res.status(403).json({ message: "Forbidden: Invalid token" });
-    }
-
     const { invoice_id, status } = req.body;
 
     // Validasi input
@@ -439,12 +436,7 @@ router.get("/get-invoice", async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
-router.get("/trigger-supabase-cloud", async (req: AuthenticatedRequest, res: Response) => {
-    const token = req.headers["cron-job-token"];
-    if (token !== process.env.crToken) {
-      return res.status(403).json({ message: "Forbidden: Invalid token" });
-    }
-
+router.get("/trigger-supabase-cloud", requireCronToken, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const success = await TriggerSupabaseCloud();
 
@@ -17,11 +17,19 @@ import userRoutes from "../modules/user/routes";
 import reportRoutes from "../modules/report/routes";
 import expanseRoutes from "../modules/expanse/routes";
 import discountRoutes from "../modules/discount/routes";
+import addonRoutes from "../modules/addon/routes";
+import settingsRoutes from "../modules/settings/routes";
+import trackRoutes from "../modules/track/routes";
+import notificationRoutes from "../modules/notification/routes";
+import deliveryRoutes from "../modules/delivery/routes";
+import syncRoutes from "../modules/sync/routes";
+import claimRoutes from "../modules/claim/routes";
 
 const router = Router();
 
 // Public routes
 router.use("/auth", authRoutes);
+router.use("/track", trackRoutes);
 
 // Protected routes
 router.use(authMiddleware);
@@ -37,5 +45,11 @@ router.use("/payment", paymentRoutes);
 router.use("/report", reportRoutes);
 router.use("/expanse", expanseRoutes);
 router.use("/discounts", discountRoutes);
+router.use("/addons", addonRoutes);
+router.use("/settings", settingsRoutes);
+router.use("/notification", notificationRoutes);
+router.use("/delivery", deliveryRoutes);
+router.use("/sync", syncRoutes);
+router.use("/claim", claimRoutes);
 
 export default router;
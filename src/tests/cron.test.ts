@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import app from "../api";
+import { test } from "./harness";
+
+// Routes called by the scheduler with the cron-job-token header, and how they are requested
+const CRON_ROUTES = [
+  "GET /transaction/purge-trash",
+  "GET /transaction/storage-fees",
+  "GET /transaction/photo-cleanup",
+  "GET /notification/overdue-digest",
+  "GET /notification/pickup-reminders",
+  "GET /user/delete-temp-files",
+  "GET /user/check-subscriptions",
+  "POST /user/save-offline-user",
+  "POST /user/invoice-update",
+  "GET /user/trigger-supabase-cloud",
+];
+
+/**
+ * Serve the API with the given crToken configured, or none when undefined.
+ */
+async function withServer(
+  crToken: string | undefined,
+  fn: (request: (route: string, token?: string) => Promise<number>) => Promise<void>
+) {
+  const configured = process.env.crToken;
+  const setToken = (value: string | undefined) => {
+    if (value === undefined) {
+      delete process.env.crToken;
+    } else {
+      process.env.crToken = value;
+    }
+  };
+  setToken(crToken);
+
+  const server = app.listen(0);
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  const request = async (route: string, token?: string) => {
+    const [method, path] = route.split(" ");
+    const headers: Record<string, string> = { "content-type": "application/json" };
+    if (token !== undefined) {
+      headers["cron-job-token"] = token;
+    }
+    const response = await fetch(baseUrl + path, { method, headers, body: method === "GET" ? undefined : "{}" });
+    return response.status;
+  };
+  try {
+    await fn(request);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+    setToken(configured);
+  }
+}
+
+test("cron routes refuse every request when no cron token is configured", async () => {
+  await withServer(undefined, async (request) => {
+    for (const route of CRON_ROUTES) {
+      assert.ok([401, 403].includes(await request(route)), `${route} answered without a token`);
+      assert.ok([401, 403].includes(await request(route, "")), `${route} answered an empty token`);
+    }
+  });
+});
+
+test("cron routes need the configured token", async () => {
+  await withServer("rahasia-cron", async (request) => {
+    for (const route of CRON_ROUTES) {
+      assert.ok([401, 403].includes(await request(route, "salah")), `${route} accepted a wrong token`);
+    }
+    assert.equal(await request("GET /transaction/purge-trash", "rahasia-cron"), 200);
+  });
+});
@@ -0,0 +1,129 @@
+import fs from "fs";
+import path from "path";
+import { Client } from "pg";
+import pool from "../database/postgres";
+
+const MIGRATION_DIR = path.join(__dirname, "../../migration");
+
+// Migration files in version order
+function migrationFiles(): { version: number; file: string }[] {
+  return fs
+    .readdirSync(MIGRATION_DIR)
+    .filter((file) => /^v\d+\.sql$/.test(file))
+    .map((file) => ({ version: parseInt(file.slice(1), 10), file }))
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Apply the migrations from one version up to another, both included.
+ */
+export async function applyMigrations(
+  connectionString: string,
+  from: number = 1,
+  upTo: number = Infinity
+): Promise<void> {
+  const client = new Client({ connectionString });
+  await client.connect();
+  try {
+    for (const { version, file } of migrationFiles()) {
+      if (version < from || version > upTo) {
+        continue;
+      }
+      try {
+        await client.query(fs.readFileSync(path.join(MIGRATION_DIR, file), "utf8"));
+      } catch (error) {
+        throw new Error(`Migration ${file} failed: ${(error as Error).message}`);
+      }
+    }
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * Recreate the public schema of the test database from the migration files, in version order.
+ * Only ever pointed at TEST_DATABASE_URL, since it drops everything in the schema.
+ * @param upTo - The last migration to apply, to test a later one against older data.
+ */
+export async function resetDatabase(connectionString: string, upTo: number = Infinity): Promise<void> {
+  const client = new Client({ connectionString });
+  await client.connect();
+  try {
+    await client.query(`DROP SCHEMA IF EXISTS public CASCADE; CREATE SCHEMA public;`);
+  } finally {
+    await client.end();
+  }
+  await applyMigrations(connectionString, 1, upTo);
+}
+
+/**
+ * Create a merchant account. Every test works on its own merchant, so tests do not
+ * see each other's rows.
+ * @returns {Promise<string>} - The ID of the merchant.
+ */
+export async function createMerchant(name: string = "Laundry Test"): Promise<string> {
+  const { rows } = await pool.query(
+    `INSERT INTO users (name, email) VALUES ($1, $2) RETURNING id`,
+    [name, `${Date.now()}.${Math.random().toString(36).slice(2)}@test.local`]
+  );
+  return rows[0].id;
+}
+
+/**
+ * Create a customer of a merchant.
+ * @returns {Promise<string>} - The ID of the customer.
+ */
+export async function createCustomer(merchantId: string, name: string = "Pelanggan Test"): Promise<string> {
+  const { rows } = await pool.query(
+    `INSERT INTO customer (merchant_id, name, phone_number) VALUES ($1, $2, $3) RETURNING id`,
+    [merchantId, name, "081234567890"]
+  );
+  return rows[0].id;
+}
+
+/**
+ * Create a service of a merchant with a price for one duration.
+ * @returns {Promise<{ service: string; duration: string }>} - The IDs of the service and the duration.
+ */
+export async function createServicePrice(
+  merchantId: string,
+  price: number = 7000
+): Promise<{ service: string; duration: string }> {
+  const duration = await pool.query(
+    `INSERT INTO duration (merchant_id, name, duration, type) VALUES ($1, 'Reguler', 2, 'Hari') RETURNING id`,
+    [merchantId]
+  );
+  const service = await pool.query(
+    `INSERT INTO service (merchant_id, name, unit) VALUES ($1, 'Cuci Kering', 'kg') RETURNING id`,
+    [merchantId]
+  );
+  await pool.query(`INSERT INTO service_duration (service, duration, price) VALUES ($1, $2, $3)`, [
+    service.rows[0].id,
+    duration.rows[0].id,
+    price,
+  ]);
+  return { service: service.rows[0].id, duration: duration.rows[0].id };
+}
+
+/**
+ * Create an active fixed-amount discount of a merchant.
+ * @returns {Promise<string>} - The ID of the discount.
+ */
+export async function createDiscount(merchantId: string, value: number = 5000): Promise<string> {
+  const { rows } = await pool.query(
+    `INSERT INTO discounts (merchant_id, name, type, value) VALUES ($1, $2, $3, $4) RETURNING id`,
+    [merchantId, "Diskon Test", "amount", value]
+  );
+  return rows[0].id;
+}
+
+/**
+ * Count the rows of a table that belong to a merchant.
+ */
+export async function countRows(table: string, merchantId: string): Promise<number> {
+  const { rows } = await pool.query(
+    `SELECT COUNT(*)::int AS count FROM ${table} WHERE merchant_id = $1`,
+    [merchantId]
+  );
+  return rows[0].count;
+}
@@ -0,0 +1,31 @@
+type TestCase = { name: string; fn: () => Promise<void> | void };
+
+const cases: TestCase[] = [];
+
+/**
+ * Register a test case. Cases run one after another in the order they are registered.
+ * @param name - What the case checks.
+ * @param fn - The test body; it fails by throwing.
+ */
+export function test(name: string, fn: () => Promise<void> | void): void {
+  cases.push({ name, fn });
+}
+
+/**
+ * Run and clear the registered cases, printing one line per case.
+ * @returns {Promise<number>} - The number of failed cases.
+ */
+export async function runRegisteredTests(): Promise<number> {
+  let failed = 0;
+  for (const { name, fn } of cases.splice(0)) {
+    try {
+      await fn();
+      console.log(`  ok   ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  FAIL ${name}`);
+      console.error(error);
+    }
+  }
+  return failed;
+}
@@ -0,0 +1,191 @@
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import express from "express";
+import pool from "../database/postgres";
+import { getClient } from "../database/unitOfWork";
+import { AuthenticatedRequest } from "../middlewares";
+import { idempotent } from "../middlewares/idempotency";
+import { countRows, createMerchant } from "./database";
+import { test } from "./harness";
+
+interface TestApp {
+  request: (path: string, key: string, signal?: AbortSignal) => Promise<Response>;
+  // How often each route ran past the middleware
+  runs: Record<string, number>;
+  // Lets the /slow route finish
+  openGate: () => void;
+}
+
+/**
+ * Serve a few routes behind the idempotency middleware for one merchant.
+ */
+async function withApp(merchantId: string, fn: (app: TestApp) => Promise<void>) {
+  const runs: Record<string, number> = {};
+  let openGate = () => {};
+  const gate = new Promise<void>((resolve) => (openGate = resolve));
+
+  const app = express();
+  // Thrown errors go to Express' default handler, like in the API; "test" keeps it from logging them
+  app.set("env", "test");
+  app.use(express.json());
+  app.use((req: AuthenticatedRequest, _res, next) => {
+    req.userId = merchantId;
+    next();
+  });
+  const count = (req: express.Request, _res: express.Response, next: express.NextFunction) => {
+    runs[req.path] = (runs[req.path] || 0) + 1;
+    next();
+  };
+  app.post("/json", idempotent, count, (_req, res) => res.status(201).json({ saved: true }));
+  app.post("/send", idempotent, count, (_req, res) => res.status(200).send("tersimpan"));
+  app.post("/end", idempotent, count, (_req, res) => res.status(204).end());
+  app.post("/invalid", idempotent, count, (_req, res) => res.status(400).json({ message: "tidak valid" }));
+  app.post("/error", idempotent, count, (_req, res) => res.status(500).json({ message: "gagal" }));
+  app.post("/throw", idempotent, count, () => {
+    throw new Error("injected failure");
+  });
+  // Writes a note once the gate opens, like a route saving an order
+  app.post("/slow", idempotent, count, async (req: AuthenticatedRequest, res) => {
+    await gate;
+    const client = await getClient();
+    try {
+      await client.query(`INSERT INTO note (merchant_id, notes) VALUES ($1, 'catatan')`, [req.userId]);
+    } finally {
+      client.release();
+    }
+    res.status(201).json({ saved: true });
+  });
+
+  const server = app.listen(0);
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const request = (path: string, key: string, signal?: AbortSignal) =>
+    fetch(baseUrl + path, {
+      method: "POST",
+      headers: { "Idempotency-Key": key, "content-type": "application/json" },
+      body: "{}",
+      signal,
+    });
+  try {
+    await fn({ request, runs, openGate });
+  } finally {
+    openGate();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+async function keyState(merchantId: string, key: string): Promise<"missing" | number> {
+  const { rows } = await pool.query(
+    `SELECT response_status FROM idempotency_key WHERE merchant_id = $1 AND key = $2`,
+    [merchantId, key]
+  );
+  return rows.length === 0 ? "missing" : rows[0].response_status;
+}
+
+async function waitFor(condition: () => Promise<boolean> | boolean) {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (await condition()) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error("Timed out waiting for the condition");
+}
+
+test("responses sent with res.json, res.send and res.end are stored and replayed", async () => {
+  const merchantId = await createMerchant();
+  await withApp(merchantId, async ({ request, runs }) => {
+    for (const [path, status, body] of [
+      ["/json", 201, '{"saved":true}'],
+      ["/send", 200, "tersimpan"],
+      ["/end", 204, ""],
+    ] as const) {
+      const first = await request(path, `key${path}`);
+      assert.equal(first.status, status);
+      assert.equal(await first.text(), body);
+      assert.equal(await keyState(merchantId, `key${path}`), status);
+
+      const retry = await request(path, `key${path}`);
+      assert.equal(retry.status, status);
+      assert.equal(retry.headers.get("Idempotent-Replayed"), "true");
+      assert.equal(await retry.text(), body);
+      assert.equal(runs[path], 1);
+    }
+  });
+});
+
+test("error responses and thrown errors are not stored", async () => {
+  const merchantId = await createMerchant();
+  await withApp(merchantId, async ({ request, runs }) => {
+    for (const [path, status] of [
+      ["/invalid", 400],
+      ["/error", 500],
+      ["/throw", 500],
+    ] as const) {
+      assert.equal((await request(path, `key${path}`)).status, status);
+      assert.equal(await keyState(merchantId, `key${path}`), "missing");
+      assert.equal((await request(path, `key${path}`)).status, status);
+      assert.equal(runs[path], 2);
+    }
+  });
+});
+
+test("a client that disconnects does not free the key of a request that is still running", async () => {
+  const merchantId = await createMerchant();
+  await withApp(merchantId, async ({ request, runs, openGate }) => {
+    const controller = new AbortController();
+    const pending = request("/slow", "key/slow", controller.signal).catch(() => null);
+    await waitFor(() => runs["/slow"] === 1);
+
+    assert.equal((await request("/slow", "key/slow")).status, 409);
+    controller.abort();
+    await pending;
+    assert.equal((await request("/slow", "key/slow")).status, 409);
+
+    openGate();
+    await waitFor(async () => (await keyState(merchantId, "key/slow")) === 201);
+
+    const retry = await request("/slow", "key/slow");
+    assert.equal(retry.status, 201);
+    assert.equal(retry.headers.get("Idempotent-Replayed"), "true");
+    assert.equal(runs["/slow"], 1);
+    assert.equal(await countRows("note", merchantId), 1);
+  });
+});
+
+test("the route's changes are rolled back when its response cannot be stored", async () => {
+  const merchantId = await createMerchant();
+  await pool.query(`
+    CREATE FUNCTION test_fail_idempotency() RETURNS TRIGGER AS $$
+    BEGIN
+      IF NEW.merchant_id = '${merchantId}' AND NEW.response_status IS NOT NULL THEN
+        RAISE EXCEPTION 'injected idempotency failure';
+      END IF;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+    CREATE TRIGGER test_fail_idempotency BEFORE UPDATE ON idempotency_key
+    FOR EACH ROW EXECUTE FUNCTION test_fail_idempotency();
+  `);
+  const originalError = console.error;
+  try {
+    await withApp(merchantId, async ({ request, openGate }) => {
+      openGate();
+      console.error = () => {};
+      assert.equal((await request("/slow", "key/slow")).status, 500);
+      console.error = originalError;
+      assert.equal(await countRows("note", merchantId), 0);
+      assert.equal(await keyState(merchantId, "key/slow"), "missing");
+
+      await pool.query(`DROP TRIGGER test_fail_idempotency ON idempotency_key`);
+      assert.equal((await request("/slow", "key/slow")).status, 201);
+      assert.equal(await countRows("note", merchantId), 1);
+    });
+  } finally {
+    console.error = originalError;
+    await pool.query(`
+      DROP TRIGGER IF EXISTS test_fail_idempotency ON idempotency_key;
+      DROP FUNCTION IF EXISTS test_fail_idempotency();
+    `);
+  }
+});
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+import app from "../api";
+import pool from "../database/postgres";
+import { addTransaction } from "../modules/transaction/controller";
+import { createCustomer, createMerchant, createServicePrice } from "./database";
+import { test } from "./harness";
+
+test("changing the status of an item checks the item ID", async () => {
+  const merchantId = await createMerchant();
+  const { service, duration } = await createServicePrice(merchantId);
+  const { transaction } = await addTransaction(
+    { customer: await createCustomer(merchantId), status: "Diproses", items: [{ service, duration, qty: 1 }] },
+    merchantId
+  );
+  const { rows } = await pool.query(
+    `SELECT ti.id FROM transaction_item ti JOIN payment p ON p.transaction_id = ti.transaction_id WHERE p.invoice_id = $1`,
+    [transaction.invoice]
+  );
+  const token = jwt.sign({ id: merchantId }, process.env.JWT_SECRET as string);
+
+  const server = app.listen(0);
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  const setStatus = (itemId: string) =>
+    fetch(`${baseUrl}/transaction/${transaction.invoice}/items/${itemId}/status`, {
+      method: "PUT",
+      headers: { authorization: token, "content-type": "application/json" },
+      body: JSON.stringify({ status: "Siap Diambil" }),
+    });
+  try {
+    const malformed = await setStatus("bukan-uuid");
+    assert.equal(malformed.status, 400);
+    assert.match((await malformed.json()).message, /ID item harus berupa UUID/);
+
+    assert.equal((await setStatus(randomUUID())).status, 404);
+    assert.equal((await setStatus(rows[0].id)).status, 200);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import pool from "../database/postgres";
+import { applyMigrations, createMerchant, resetDatabase } from "./database";
+import { test } from "./harness";
+
+// Leaves the database fully migrated, like the runner does before the tests
+test("v21 keeps repeated invoice numbers and makes new ones unique per merchant", async () => {
+  const connectionString = process.env.TEST_DATABASE_URL as string;
+  await resetDatabase(connectionString, 20);
+
+  const merchantId = await createMerchant();
+  const other = await createMerchant("Laundry Lain");
+  const insertPayments = async (merchant: string, invoiceIds: string[]) => {
+    const { rows } = await pool.query(
+      `
+      INSERT INTO transaction (merchant_id, created_at)
+      SELECT $1, NOW() - n * INTERVAL '1 hour' FROM generate_series($2::int, 1, -1) n
+      RETURNING id, created_at
+      `,
+      [merchant, invoiceIds.length]
+    );
+    const transactions = rows.sort((a, b) => a.created_at - b.created_at);
+    for (const [index, invoiceId] of invoiceIds.entries()) {
+      await pool.query(
+        `INSERT INTO payment (merchant_id, transaction_id, invoice_id, created_at) VALUES ($1, $2, $3, $4)`,
+        [merchant, transactions[index].id, invoiceId, transactions[index].created_at]
+      );
+    }
+    return transactions[0].id;
+  };
+  const transactionId = await insertPayments(merchantId, ["INV-1", "INV-1", "INV-2"]);
+  await insertPayments(other, ["INV-2"]);
+
+  await applyMigrations(connectionString, 21);
+
+  const invoices = async (merchant: string) =>
+    (
+      await pool.query(`SELECT invoice_id FROM payment WHERE merchant_id = $1 ORDER BY created_at`, [merchant])
+    ).rows.map((row) => row.invoice_id);
+  assert.deepEqual(await invoices(merchantId), ["INV-1", "INV-1", "INV-2"]);
+  assert.deepEqual(await invoices(other), ["INV-2"]);
+
+  await assert.rejects(
+    pool.query(`INSERT INTO payment (merchant_id, transaction_id, invoice_id) VALUES ($1, $2, 'INV-2')`, [
+      merchantId,
+      transactionId,
+    ]),
+    { code: "23505" }
+  );
+});
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import pool from "../database/postgres";
+import { addTransaction } from "../modules/transaction/controller";
+import { createCustomer, createMerchant, createServicePrice } from "./database";
+import { test } from "./harness";
+
+// As many as the pool has connections, so every order holds one while its items are priced
+const PARALLEL_ORDERS = 10;
+
+test("parallel orders of one merchant get unique, gap-free order numbers", async () => {
+  const merchantId = await createMerchant();
+  const customer = await createCustomer(merchantId);
+  const { service, duration } = await createServicePrice(merchantId, 7000);
+
+  const results = await Promise.all(
+    Array.from({ length: PARALLEL_ORDERS }, () =>
+      addTransaction({ customer, status: "Diproses", items: [{ service, duration, qty: 2 }] }, merchantId)
+    )
+  );
+
+  const { rows } = await pool.query(
+    `SELECT "order" FROM transaction WHERE merchant_id = $1 ORDER BY "order"`,
+    [merchantId]
+  );
+  assert.deepEqual(
+    rows.map((row) => row.order),
+    Array.from({ length: PARALLEL_ORDERS }, (_, index) => index + 1)
+  );
+
+  const invoices = new Set(results.map(({ transaction }) => transaction.invoice));
+  assert.equal(invoices.size, PARALLEL_ORDERS);
+
+  const items = await pool.query(
+    `
+    SELECT ti.price
+    FROM transaction_item ti
+    JOIN transaction t ON t.id = ti.transaction_id
+    WHERE t.merchant_id = $1
+    `,
+    [merchantId]
+  );
+  assert.deepEqual(
+    items.rows.map((row) => Number(row.price)),
+    Array(PARALLEL_ORDERS).fill(7000)
+  );
+});
+
+test("order numbers are not reused after a transaction is deleted", async () => {
+  const merchantId = await createMerchant();
+  const customer = await createCustomer(merchantId);
+
+  await addTransaction({ customer, status: "Diproses", items: [] }, merchantId);
+  await addTransaction({ customer, status: "Diproses", items: [] }, merchantId);
+  await pool.query(`DELETE FROM transaction WHERE merchant_id = $1 AND "order" = 2`, [merchantId]);
+  await addTransaction({ customer, status: "Diproses", items: [] }, merchantId);
+
+  const { rows } = await pool.query(
+    `SELECT "order" FROM transaction WHERE merchant_id = $1 ORDER BY "order"`,
+    [merchantId]
+  );
+  assert.deepEqual(rows.map((row) => row.order), [1, 3]);
+});
+
+test("invoice numbers a merchant already issued are skipped when its counter starts over", async () => {
+  const merchantId = await createMerchant();
+  const customer = await createCustomer(merchantId);
+  await pool.query(
+    `INSERT INTO merchant_settings (merchant_id, invoice_prefix, invoice_padding, invoice_reset) VALUES ($1, 'NOTA', 4, 'never')`,
+    [merchantId]
+  );
+
+  const first = await addTransaction({ customer, status: "Diproses", items: [] }, merchantId);
+  // Changing the reset period starts a counter for a new period
+  await pool.query(`DELETE FROM invoice_counter WHERE merchant_id = $1`, [merchantId]);
+  const second = await addTransaction({ customer, status: "Diproses", items: [] }, merchantId);
+
+  assert.match(first.transaction.invoice, /^NOTA-\d+\.0001$/);
+  assert.equal(second.transaction.invoice, first.transaction.invoice.replace(/0001$/, "0002"));
+});
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import pool from "../database/postgres";
+import { updatePayment } from "../modules/payments/controller";
+import { addTransaction, cancelTransaction } from "../modules/transaction/controller";
+import { createCustomer, createMerchant } from "./database";
+import { test } from "./harness";
+
+const PAYMENT = { payment_received: 10000, change_given: 0, payment_method: "Tunai" };
+
+async function createOrder(): Promise<string> {
+  const merchantId = await createMerchant();
+  const customer = await createCustomer(merchantId);
+  const { transaction } = await addTransaction({ customer, status: "Diproses", items: [] }, merchantId);
+  return transaction.invoice;
+}
+
+async function paymentStatus(invoiceId: string): Promise<string> {
+  const { rows } = await pool.query(`SELECT status FROM payment WHERE invoice_id = $1`, [invoiceId]);
+  return rows[0].status;
+}
+
+test("an unpaid payment is settled", async () => {
+  const invoice = await createOrder();
+
+  await updatePayment(invoice, PAYMENT);
+
+  assert.equal(await paymentStatus(invoice), "Lunas");
+});
+
+test("the payment of a cancelled transaction cannot be settled", async () => {
+  const invoice = await createOrder();
+  await cancelTransaction(invoice, "Pelanggan membatalkan");
+
+  await assert.rejects(updatePayment(invoice, PAYMENT), /sudah dibatalkan/);
+  assert.equal(await paymentStatus(invoice), "Dibatalkan");
+});
+
+test("a refunded payment cannot be settled again", async () => {
+  const invoice = await createOrder();
+  await updatePayment(invoice, PAYMENT);
+  await cancelTransaction(invoice, "Pelanggan membatalkan");
+
+  await assert.rejects(updatePayment(invoice, PAYMENT), /sudah dibatalkan|sudah dikembalikan/);
+  assert.equal(await paymentStatus(invoice), "Dikembalikan");
+});
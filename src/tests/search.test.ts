@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { addTransaction, getTransactions } from "../modules/transaction/controller";
+import { createCustomer, createMerchant } from "./database";
+import { test } from "./harness";
+
+const search = (merchantId: string, term: string) =>
+  getTransactions(null, null, null, null, merchantId, 1, 10, term);
+
+test("search matches invoice prefixes, customer names and notes", async () => {
+  const merchantId = await createMerchant();
+  const customer = await createCustomer(merchantId, "Budi Santoso");
+  const { transaction } = await addTransaction(
+    { customer, status: "Diproses", note: "kemeja putih noda kopi", items: [] },
+    merchantId
+  );
+
+  const byInvoice = await search(merchantId, transaction.invoice.slice(0, -1));
+  assert.deepEqual(byInvoice.transactions.map((row) => row.invoice), [transaction.invoice]);
+
+  const byName = await search(merchantId, "Budi Santso");
+  assert.equal(byName.totalCount, 1);
+
+  const byNote = await search(merchantId, "kopi");
+  assert.equal(byNote.totalCount, 1);
+});
+
+test("LIKE wildcards in the search term match literally", async () => {
+  const merchantId = await createMerchant();
+  const customer = await createCustomer(merchantId, "Sari");
+  await addTransaction({ customer, status: "Diproses", items: [] }, merchantId);
+
+  assert.equal((await search(merchantId, "%")).totalCount, 0);
+  assert.equal((await search(merchantId, "_")).totalCount, 0);
+  assert.equal((await getTransactions(null, "%", null, null, merchantId)).totalCount, 0);
+});
+
+test("search does not return other merchants' transactions", async () => {
+  const merchantId = await createMerchant();
+  const other = await createMerchant("Laundry Lain");
+  const { transaction } = await addTransaction(
+    { customer: await createCustomer(other, "Budi Santoso"), status: "Diproses", items: [] },
+    other
+  );
+
+  assert.equal((await search(merchantId, transaction.invoice)).totalCount, 0);
+  assert.equal((await search(other, transaction.invoice)).totalCount, 1);
+});
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import pool from "../database/postgres";
+import { getSyncChanges, syncTransactions } from "../modules/sync/controller";
+import { OfflineTransaction, syncTransactionsSchema } from "../modules/sync/types";
+import { createCustomer, createMerchant } from "./database";
+import { test } from "./harness";
+
+async function syncOne(merchantId: string, record: Partial<OfflineTransaction>) {
+  const [result] = await syncTransactions(merchantId, [
+    {
+      id: randomUUID(),
+      created_at: new Date(Date.now() - 60 * 60 * 1000),
+      customer: await createCustomer(merchantId),
+      status: "Diproses",
+      items: [],
+      ...record,
+    },
+  ]);
+  assert.equal(result.status, "created");
+
+  const { rows } = await pool.query(
+    `
+    SELECT t.status, t.cancel_reason, t.cancelled_at, t.completed_at, t.ready_to_pick_up_at,
+      p.status AS payment_status,
+      (SELECT MAX(created_at) FROM transaction_status_log WHERE transaction_id = t.id) AS logged_at
+    FROM transaction t
+    JOIN payment p ON p.transaction_id = t.id
+    WHERE t.id = $1
+    `,
+    [result.id]
+  );
+  return rows[0];
+}
+
+// When the device changed the status, well before the upload
+const changedOnDevice = () => new Date(Date.now() - 30 * 60 * 1000);
+
+test("an order cancelled offline is synced with its reason and a cancelled payment", async () => {
+  const merchantId = await createMerchant();
+  const cancelledAt = changedOnDevice();
+  const synced = await syncOne(merchantId, {
+    status: "Dibatalkan",
+    cancel_reason: "Pelanggan batal",
+    status_changed_at: cancelledAt,
+  });
+
+  assert.equal(synced.status, "Dibatalkan");
+  assert.equal(synced.cancel_reason, "Pelanggan batal");
+  assert.deepEqual(synced.cancelled_at, cancelledAt);
+  assert.deepEqual(synced.logged_at, cancelledAt);
+  assert.equal(synced.payment_status, "Dibatalkan");
+});
+
+test("orders finished offline are synced with the device's completion times", async () => {
+  const merchantId = await createMerchant();
+
+  const completedAt = changedOnDevice();
+  const completed = await syncOne(merchantId, { status: "Selesai", status_changed_at: completedAt });
+  assert.equal(completed.status, "Selesai");
+  assert.deepEqual(completed.completed_at, completedAt);
+  assert.deepEqual(completed.logged_at, completedAt);
+
+  const readyAt = changedOnDevice();
+  const ready = await syncOne(merchantId, { status: "Siap Diambil", status_changed_at: readyAt });
+  assert.equal(ready.status, "Siap Diambil");
+  assert.deepEqual(ready.ready_to_pick_up_at, readyAt);
+});
+
+test("an offline cancellation needs a reason", async () => {
+  const record = (status: string, cancel_reason?: string) => ({
+    transactions: [
+      {
+        id: randomUUID(),
+        created_at: new Date().toISOString(),
+        customer: randomUUID(),
+        status,
+        cancel_reason,
+        status_changed_at: status === "Diproses" ? undefined : new Date().toISOString(),
+        items: [{ service: randomUUID(), duration: randomUUID(), qty: 1 }],
+      },
+    ],
+  });
+
+  assert.match(
+    String(syncTransactionsSchema.validate(record("Dibatalkan")).error),
+    /Alasan pembatalan wajib diisi/
+  );
+  assert.match(
+    String(syncTransactionsSchema.validate(record("Diproses", "Pelanggan batal")).error),
+    /hanya untuk transaksi yang dibatalkan/
+  );
+  assert.equal(syncTransactionsSchema.validate(record("Dibatalkan", "Pelanggan batal")).error, undefined);
+});
+
+test("an offline status change needs the time it happened on the device", async () => {
+  const record = (status: string, status_changed_at?: string) => ({
+    transactions: [
+      {
+        id: randomUUID(),
+        created_at: new Date(Date.now() - 60 * 1000).toISOString(),
+        customer: randomUUID(),
+        status,
+        status_changed_at,
+        items: [{ service: randomUUID(), duration: randomUUID(), qty: 1 }],
+      },
+    ],
+  });
+
+  assert.match(String(syncTransactionsSchema.validate(record("Selesai")).error), /wajib diisi/);
+  assert.match(
+    String(syncTransactionsSchema.validate(record("Selesai", new Date(0).toISOString())).error),
+    /sebelum waktu transaksi/
+  );
+  assert.match(
+    String(syncTransactionsSchema.validate(record("Diproses", new Date().toISOString())).error),
+    /hanya untuk transaksi yang sudah diproses/
+  );
+  assert.equal(syncTransactionsSchema.validate(record("Selesai", new Date().toISOString())).error, undefined);
+});
+
+test("a change committed after a sync is returned by the next one", async () => {
+  const merchantId = await createMerchant();
+  const customer = await createCustomer(merchantId);
+  const { server_time: since } = await getSyncChanges(merchantId, null);
+
+  // The change starts before the sync and commits after it
+  const writer = await pool.connect();
+  try {
+    await writer.query("BEGIN");
+    await writer.query(`UPDATE customer SET name = 'Budi Baru' WHERE id = $1`, [customer]);
+
+    const during = await getSyncChanges(merchantId, since);
+    assert.ok(!during.customers.some((row) => row.name === "Budi Baru"));
+
+    await writer.query("COMMIT");
+    const after = await getSyncChanges(merchantId, during.server_time);
+    assert.deepEqual(
+      after.customers.map((row) => row.name),
+      ["Budi Baru"]
+    );
+  } finally {
+    writer.release();
+  }
+});
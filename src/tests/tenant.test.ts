@@ -0,0 +1,254 @@
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+import app from "../api";
+import pool from "../database/postgres";
+import routes from "../routes";
+import { addTransaction } from "../modules/transaction/controller";
+import { countRows, createCustomer, createDiscount, createMerchant } from "./database";
+import { test } from "./harness";
+
+// Routes with an ID in the URL that are not addressed by a merchant's record ID
+const EXEMPT_ROUTES: Record<string, string> = {
+  "GET /track/:token": "public, addressed by a signed tracking token",
+  "GET /user/invoice/:invoiceId": "platform subscription invoice, guarded by the invoice-token header",
+  "GET /user/delete/:id": "public account deletion link, not behind the auth middleware",
+};
+
+// Bodies for routes that validate the request before looking up the record
+const BODIES: Record<string, object> = {
+  "PUT /user/:id": { name: "Penyusup", email: "penyusup@test.local" },
+  "PUT /expanse/:id": { total: 1, description: "Penyusup", date: "2024-01-01" },
+  "PUT /discounts/:id": { name: "Penyusup" },
+  "PUT /addons/:id": { name: "Penyusup" },
+};
+
+// Tables that hold the victim merchant's data, read before and after the attack
+const SNAPSHOT_QUERIES = [
+  `SELECT * FROM users WHERE id = $1`,
+  `SELECT * FROM customer WHERE merchant_id = $1`,
+  `SELECT * FROM service WHERE merchant_id = $1`,
+  `SELECT * FROM duration WHERE merchant_id = $1`,
+  `SELECT * FROM printed_devices WHERE user_id = $1`,
+  `SELECT * FROM discounts WHERE merchant_id = $1`,
+  `SELECT * FROM addons WHERE merchant_id = $1`,
+  `SELECT * FROM expenses WHERE merchant_id = $1`,
+  `SELECT * FROM merchant_holiday WHERE merchant_id = $1`,
+  `SELECT * FROM transaction WHERE merchant_id = $1`,
+  `SELECT * FROM payment WHERE merchant_id = $1`,
+  `SELECT ti.* FROM transaction_item ti JOIN transaction t ON t.id = ti.transaction_id WHERE t.merchant_id = $1`,
+  `SELECT * FROM transaction_item_garment WHERE merchant_id = $1`,
+  `SELECT * FROM transaction_photo WHERE merchant_id = $1`,
+  `SELECT d.* FROM transaction_delivery d JOIN transaction t ON t.id = d.transaction_id WHERE t.merchant_id = $1`,
+  `SELECT * FROM claim WHERE merchant_id = $1`,
+];
+
+/**
+ * List every route of the API that takes a parameter, as "METHOD /prefix/path".
+ */
+function listParamRoutes(): string[] {
+  const found: string[] = [];
+  for (const layer of (routes as any).stack) {
+    if (!layer.handle.stack) {
+      continue;
+    }
+    // Mount paths are compiled to e.g. ^\/transaction\/?(?=\/|$)
+    const prefix = layer.regexp.source.replace(/^\^/, "").replace("\\/?(?=\\/|$)", "").replace(/\\\//g, "/");
+    for (const sub of layer.handle.stack) {
+      if (sub.route && String(sub.route.path).includes(":")) {
+        for (const method of Object.keys(sub.route.methods)) {
+          found.push(`${method.toUpperCase()} ${prefix}${sub.route.path}`);
+        }
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Create a merchant with one record of every kind that can be addressed by a URL.
+ * @returns - The merchant ID and the IDs of its records, by resource.
+ */
+async function createVictim(): Promise<{ merchantId: string; ids: Record<string, string> }> {
+  const merchantId = await createMerchant("Laundry Korban");
+  const customer = await createCustomer(merchantId);
+  const one = async (sql: string, params: unknown[]) => (await pool.query(sql, params)).rows[0].id as string;
+
+  const duration = await one(
+    `INSERT INTO duration (merchant_id, name, duration, type) VALUES ($1, 'Reguler', 2, 'Hari') RETURNING id`,
+    [merchantId]
+  );
+  const service = await one(
+    `INSERT INTO service (merchant_id, name, unit) VALUES ($1, 'Cuci Kering', 'kg') RETURNING id`,
+    [merchantId]
+  );
+  await pool.query(`INSERT INTO service_duration (service, duration, price) VALUES ($1, $2, 7000)`, [service, duration]);
+
+  const { transaction: created } = await addTransaction(
+    {
+      customer,
+      status: "Diproses",
+      items: [{ service, duration, qty: 2, garments: [{ type: "Kemeja" }] }],
+    },
+    merchantId
+  );
+  const trashed = await addTransaction({ customer, status: "Diproses", items: [] }, merchantId);
+  const transactionIds = await pool.query(
+    `SELECT invoice_id, transaction_id FROM payment WHERE invoice_id = ANY($1::text[])`,
+    [[created.invoice, trashed.transaction.invoice]]
+  );
+  const idOf = (invoice: string) => transactionIds.rows.find((row) => row.invoice_id === invoice).transaction_id;
+  const transaction = { id: idOf(created.invoice), invoice: created.invoice as string };
+  const trashedId = idOf(trashed.transaction.invoice);
+  await pool.query(`UPDATE transaction SET deleted_at = NOW() WHERE id = $1`, [trashedId]);
+
+  const garment = (
+    await pool.query(`SELECT id, transaction_item_id, tag_code FROM transaction_item_garment WHERE transaction_id = $1`, [
+      transaction.id,
+    ])
+  ).rows[0];
+  await pool.query(
+    `INSERT INTO transaction_delivery (transaction_id, address, pickup_window_start) VALUES ($1, 'Jl. Korban 1', NOW())`,
+    [transaction.id]
+  );
+
+  return {
+    merchantId,
+    ids: {
+      user: merchantId,
+      customer,
+      service,
+      duration,
+      transaction: transaction.id,
+      trashed: trashedId,
+      invoice: transaction.invoice,
+      item: garment.transaction_item_id,
+      garment: garment.id,
+      tag: garment.tag_code,
+      photo: await one(
+        `INSERT INTO transaction_photo (transaction_id, merchant_id, stage, storage_path, url)
+         VALUES ($1, $2, 'intake', 'x/y.jpg', 'http://localhost/y.jpg') RETURNING id`,
+        [transaction.id, merchantId]
+      ),
+      claim: await one(
+        `INSERT INTO claim (transaction_id, merchant_id, type, description) VALUES ($1, $2, 'lost', 'Hilang') RETURNING id`,
+        [transaction.id, merchantId]
+      ),
+      printer: await one(
+        `INSERT INTO printed_devices (user_id, device_name, device_id) VALUES ($1, 'Printer', '00:11:22') RETURNING id`,
+        [merchantId]
+      ),
+      discount: await createDiscount(merchantId),
+      addon: await one(
+        `INSERT INTO addons (merchant_id, name, pricing_type, price) VALUES ($1, 'Parfum', 'fixed', 2000) RETURNING id`,
+        [merchantId]
+      ),
+      expense: await one(
+        `INSERT INTO expenses (merchant_id, total, description, date) VALUES ($1, 10000, 'Sabun', '2024-01-01') RETURNING id`,
+        [merchantId]
+      ),
+      holiday: await one(
+        `INSERT INTO merchant_holiday (merchant_id, date, name) VALUES ($1, '2024-12-25', 'Natal') RETURNING id`,
+        [merchantId]
+      ),
+    },
+  };
+}
+
+/**
+ * Fill in the parameters of a route with the victim's record of the matching kind.
+ */
+function targetPath(route: string, ids: Record<string, string>): string {
+  const [, path] = route.split(" ");
+  const resource = path.split("/")[1];
+  const idResource: Record<string, string> = {
+    user: "user",
+    customer: "customer",
+    service: "service",
+    duration: "duration",
+    printer: "printer",
+    expanse: "expense",
+    discounts: "discount",
+    addons: "addon",
+    settings: "holiday",
+    claim: "claim",
+    transaction: route.startsWith("POST /transaction/:id/restore") ? "trashed" : "transaction",
+  };
+
+  return path.replace(/:(\w+)/g, (_, name: string) => {
+    switch (name) {
+      case "invoiceId":
+        return ids.invoice;
+      case "itemId":
+        return ids.item;
+      case "garmentId":
+        return ids.garment;
+      case "photoId":
+        return ids.photo;
+      case "code":
+        return ids.tag;
+      case "id":
+        return ids[idResource[resource]];
+      default:
+        throw new Error(`No test value for :${name} in ${route}`);
+    }
+  });
+}
+
+async function snapshot(merchantId: string): Promise<unknown[][]> {
+  const results = [];
+  for (const sql of SNAPSHOT_QUERIES) {
+    results.push((await pool.query(`${sql} ORDER BY 1`, [merchantId])).rows);
+  }
+  return results;
+}
+
+test("no route lets a merchant read or change another merchant's records", async () => {
+  const attacker = await createMerchant("Laundry Penyerang");
+  const victim = await createVictim();
+  const token = jwt.sign({ id: attacker }, process.env.JWT_SECRET as string);
+
+  const server = app.listen(0);
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  try {
+    const before = await snapshot(victim.merchantId);
+    const leaks: string[] = [];
+
+    for (const route of listParamRoutes().filter((route) => !(route in EXEMPT_ROUTES))) {
+      const [method] = route.split(" ");
+      const body = BODIES[route];
+      const response = await fetch(baseUrl + targetPath(route, victim.ids), {
+        method,
+        headers: { authorization: token, "content-type": "application/json" },
+        body: body ? JSON.stringify(body) : method === "GET" ? undefined : "{}",
+      });
+      if (response.status !== 404) {
+        leaks.push(`${route} answered ${response.status}`);
+      }
+    }
+
+    assert.deepEqual(leaks, []);
+    assert.deepEqual(await snapshot(victim.merchantId), before);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
+
+test("every exempt route still exists", async () => {
+  const current = listParamRoutes();
+  for (const route of Object.keys(EXEMPT_ROUTES)) {
+    assert.ok(current.includes(route), `${route} is exempt but no longer exists`);
+  }
+});
+
+test("addTransaction rejects a discount of another merchant", async () => {
+  const merchantId = await createMerchant();
+  const customer = await createCustomer(merchantId);
+  const otherDiscount = await createDiscount(await createMerchant("Laundry Lain"));
+
+  await assert.rejects(
+    addTransaction({ customer, status: "Diproses", discount_id: otherDiscount, items: [] }, merchantId),
+    /Diskon tidak ditemukan/
+  );
+  assert.equal(await countRows("transaction", merchantId), 0);
+});
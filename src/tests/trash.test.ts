@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+import app from "../api";
+import pool from "../database/postgres";
+import {
+  addTransaction,
+  restoreTransactionById,
+  softDeleteTransactionById,
+} from "../modules/transaction/controller";
+import { createCustomer, createMerchant } from "./database";
+import { test } from "./harness";
+
+test("a transaction in the trash cannot be edited until it is restored", async () => {
+  const merchantId = await createMerchant();
+  const { transaction } = await addTransaction(
+    { customer: await createCustomer(merchantId), status: "Diproses", items: [] },
+    merchantId
+  );
+  const { rows } = await pool.query(`SELECT transaction_id FROM payment WHERE invoice_id = $1`, [
+    transaction.invoice,
+  ]);
+  const transactionId = rows[0].transaction_id;
+  await softDeleteTransactionById(transactionId, "Salah input", merchantId);
+
+  const token = jwt.sign({ id: merchantId }, process.env.JWT_SECRET as string);
+  const server = app.listen(0);
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  const finish = () =>
+    fetch(`${baseUrl}/transaction/${transaction.invoice}`, {
+      method: "PUT",
+      headers: { authorization: token, "content-type": "application/json" },
+      body: JSON.stringify({ status: "Selesai" }),
+    });
+  try {
+    assert.equal((await finish()).status, 404);
+    const trashed = await pool.query(`SELECT status FROM transaction WHERE id = $1`, [transactionId]);
+    assert.equal(trashed.rows[0].status, "Diproses");
+
+    assert.equal(await restoreTransactionById(transactionId, merchantId, null, merchantId), true);
+    assert.equal((await finish()).status, 200);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import pool from "../database/postgres";
+import { withUnitOfWork } from "../database/unitOfWork";
+import { addTransaction } from "../modules/transaction/controller";
+import { countRows, createCustomer, createMerchant } from "./database";
+import { test } from "./harness";
+
+test("an error after addTransaction rolls back the transaction and its payment", async () => {
+  const merchantId = await createMerchant();
+  const customer = await createCustomer(merchantId);
+
+  await assert.rejects(
+    withUnitOfWork(async () => {
+      await addTransaction({ customer, status: "Diproses", items: [] }, merchantId);
+      throw new Error("injected failure");
+    }),
+    /injected failure/
+  );
+
+  assert.equal(await countRows("transaction", merchantId), 0);
+  assert.equal(await countRows("payment", merchantId), 0);
+});
+
+test("a failing payment insert rolls back everything addTransaction wrote before it", async () => {
+  const merchantId = await createMerchant();
+  const customer = await createCustomer(merchantId);
+
+  // Make the last write of addTransaction fail, after the transaction, status log and counter rows
+  await pool.query(`
+    CREATE FUNCTION test_fail_payment() RETURNS TRIGGER AS $$
+    BEGIN
+      IF NEW.merchant_id = '${merchantId}' THEN
+        RAISE EXCEPTION 'injected payment failure';
+      END IF;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+    CREATE TRIGGER test_fail_payment BEFORE INSERT ON payment
+    FOR EACH ROW EXECUTE FUNCTION test_fail_payment();
+  `);
+
+  try {
+    await assert.rejects(
+      addTransaction({ customer, status: "Diproses", items: [] }, merchantId),
+      /injected payment failure/
+    );
+  } finally {
+    await pool.query(`
+      DROP TRIGGER test_fail_payment ON payment;
+      DROP FUNCTION test_fail_payment();
+    `);
+  }
+
+  assert.equal(await countRows("transaction", merchantId), 0);
+  assert.equal(await countRows("payment", merchantId), 0);
+  assert.equal(await countRows("merchant_order_counter", merchantId), 0);
+  const { rows } = await pool.query(
+    `SELECT COUNT(*)::int AS count
+     FROM transaction_status_log l
+     WHERE NOT EXISTS (SELECT 1 FROM transaction t WHERE t.id = l.transaction_id)`
+  );
+  assert.equal(rows[0].count, 0);
+});
+
+test("a committed unit of work keeps the transaction and its payment", async () => {
+  const merchantId = await createMerchant();
+  const customer = await createCustomer(merchantId);
+
+  await addTransaction({ customer, status: "Diproses", items: [] }, merchantId);
+
+  assert.equal(await countRows("transaction", merchantId), 1);
+  assert.equal(await countRows("payment", merchantId), 1);
+});
@@ -8,3 +8,17 @@ export const formatJoiError = (error: any) => {
 
   return message;
 };
+
+/**
+ * Reduce a phone number to its digits in local form, so "+62 812-3456" and "08123456" compare equal.
+ * Mirrors the normalize_phone function in the database.
+ */
+export const normalizePhoneNumber = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.startsWith('62') ? `0${digits.slice(2)}` : digits;
+};
+
+/**
+ * Escape the LIKE wildcards in user input, so "50%" or "a_b" match literally.
+ */
+export const escapeLikePattern = (text: string) => text.replace(/[\\%_]/g, '\\$&');